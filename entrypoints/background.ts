@@ -1,27 +1,44 @@
-import { Dexie } from 'dexie';
 import { BadgeManager } from '../lib/background/badge-manager';
 import { IdleTracker } from '../lib/background/idle-tracker'
-import { CONST_EVENTS } from '../shared/constants/constants';
+import { RuleEngine } from '../lib/background/rule-engine'
+import { SettingsStore } from '../lib/background/settings-store'
+import { DataImporter } from '../lib/background/data-importer'
+import { DataExporter } from '../lib/background/data-exporter'
+import { TrackingStateStore, type TrackingState } from '../lib/background/tracking-state'
+import { Scheduler } from '../lib/background/scheduler'
+import { RetentionManager, type RetentionPolicy } from '../lib/background/retention'
+import { EventCompactor } from '../lib/background/event-compactor'
+import { LimitManager, type LimitConfig } from '../lib/background/limit-manager'
+import { FocusGuard, type FocusConfig } from '../lib/background/focus-guard'
+import { ReportBuilder } from '../lib/background/report-builder'
+import { CONST_EVENTS, EXPORT_VERSION } from '../shared/constants/constants';
+import { db } from '../shared/db/schema';
+import { DatabaseService } from '../shared/db/services/database-service';
+import { validateMessage, validateQueuedEvent } from '../shared/constants/messages';
+import { getStartOfNextDay } from '../shared/utils/date-utils';
+import { debugLog, setDetailedLogging } from '../shared/utils/logger';
+import { extractDomain, resolveDomainValue } from '../shared/utils/url-utils';
+import type { ExtensionSettings, SettingKey } from '../shared/types/settings';
+import type { Session } from '../shared/types/database';
+import type { ActiveTab } from '../shared/types/browser';
+import type { BlockReason, ClickData } from '../shared/types/interfaces';
+import type { InteractionEventType, Message, MessageResponseMap, MessageType, QueuedEvent } from '../shared/types/messages';
 import { timeStamp } from 'console';
 
-export default defineBackground(() => {
-  console.log('Background script starting...');
+const INTERACTION_SETTINGS: Record<InteractionEventType, SettingKey> = {
+  [CONST_EVENTS.SCROLL_DEPTH]: 'trackScroll',
+  [CONST_EVENTS.CLICK]: 'trackClicks',
+  [CONST_EVENTS.KEYDOWN]: 'trackKeystrokes',
+  [CONST_EVENTS.FORM_INTERACTION]: 'trackForms',
+  [CONST_EVENTS.SPA_ROUTE_CHANGE]: 'spaDetection'
+};
 
-  interface ActiveTab {
-    tabId: number
-    pageId: number
-    url: string
-    domain: string
-    isVisible: boolean
-    isIdle: boolean
-    lastActivityTime: number
-  }
+// Batches being written at once before senders are asked to back off
+const MAX_PENDING_BATCHES = 3;
+const BATCH_RETRY_AFTER_MS = 2000;
 
-  interface BaseMessage {
-    type: string
-    data?: any
-    timestamp?: number
-  }
+export default defineBackground(() => {
+  console.log('Background script starting...');
 
   function cleanUrl(url: string): string {
     try {
@@ -32,35 +49,11 @@ export default defineBackground(() => {
     }
   }
 
-  function extractDomain(url: string): string {
-    try {
-      const urlObj = new URL(url)
-      return urlObj.hostname
-    } catch {
-      return 'unknown'
-    }
+  function createVisitId(): string {
+    return 'visit-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9)
   }
 
-  import('dexie').then(({ default: Dexie }) => {
-    class AnalyticsDB extends Dexie {
-      pages!: Dexie.Table<any, number>
-      events!: Dexie.Table<any, number>
-      sessions!: Dexie.Table<any, number>
-      settings!: Dexie.Table<any, number>
-
-      constructor() {
-        super('AnalyticsDB')
-        this.version(1).stores({
-          pages: '++id, url, domain, firstVisit, lastVisit, totalActiveTime',
-          events: '++id, pageId, sessionId, timestamp, type',
-          sessions: '++id, sessionId, startTime, endTime, isActive',
-          settings: '++id, key'
-        })
-      }
-    }
-
-    const db = new AnalyticsDB()
-
+  try {
     class SessionManager {
       private static instance: SessionManager
       private currentSessionId: string | null = null
@@ -87,12 +80,15 @@ export default defineBackground(() => {
 
         this.currentSessionId = 'session-' + Date.now() + '-' + Math.random().toString(36).substr(2, 9)
         this.sessionStartTime = Date.now()
+        this.persist()
 
         await db.sessions.add({
           sessionId: this.currentSessionId,
           startTime: this.sessionStartTime,
-          isActive: true
+          isActive: true,
+          activeTime: 0
         })
+        await this.recordEvent(CONST_EVENTS.SESSION_START, this.currentSessionId, this.sessionStartTime, 0)
 
         console.log(`Started new session: ${this.currentSessionId}`)
         return this.currentSessionId
@@ -101,312 +97,400 @@ export default defineBackground(() => {
       async endSession() {
         if (!this.currentSessionId) return
 
-        const endTime = Date.now()
-        await db.sessions.where('sessionId').equals(this.currentSessionId).modify({
-          endTime,
-          isActive: false
-        })
+        const session = await db.sessions.where('sessionId').equals(this.currentSessionId).first()
+        if (session) {
+          await this.closeSession(session, Date.now())
+        }
 
         console.log(`Ended session ${this.currentSessionId}`)
         this.currentSessionId = null
         this.sessionStartTime = null
+        this.persist()
+      }
+
+      async addActiveTime(time: number) {
+        if (!this.currentSessionId || time <= 0) return
+
+        await db.sessions.where('sessionId').equals(this.currentSessionId).modify(session => {
+          session.activeTime = (session.activeTime || 0) + time
+        })
+      }
+
+      private async closeSession(session: Session, endTime: number) {
+        await db.sessions.update(session.id!, { endTime, isActive: false })
+        await this.recordEvent(CONST_EVENTS.SESSION_END, session.sessionId, endTime, session.activeTime || 0)
+      }
+
+      private async recordEvent(type: string, sessionId: string, timestamp: number, activeTimeMs: number) {
+        await db.events.add({ sessionId, timestamp, type, data: { activeTimeMs } })
+      }
+
+      private persist() {
+        TrackingStateStore.getInstance().update({
+          sessionId: this.currentSessionId,
+          sessionStartTime: this.sessionStartTime
+        })
       }
 
-      async initialize() {
-        const activeSessions = await db.sessions.where('isActive').equals(1).toArray()
-        if (activeSessions.length > 0) {
-          console.log(`Found ${activeSessions.length} unclosed sessions, closing them`)
-          const endTime = Date.now()
+      /**
+       * Closes sessions left open by a previous run. After a worker restart the
+       * session it was tracking is resumed instead of being split in two.
+       */
+      async initialize(restored?: TrackingState) {
+        // Booleans aren't valid IndexedDB keys, so isActive can't be queried through its index
+        const activeSessions = await db.sessions.filter(session => session.isActive).toArray()
+        const resumed = restored?.sessionId
+          ? activeSessions.find(session => session.sessionId === restored.sessionId)
+          : undefined
+
+        const stale = activeSessions.filter(session => session !== resumed)
+        if (stale.length > 0) {
+          console.log(`Found ${stale.length} unclosed sessions, closing them`)
+          const endTime = restored?.heartbeat ?? Date.now()
           await Promise.all(
-            activeSessions.map(session =>
-              db.sessions.update(session.id!, {
-                endTime,
-                isActive: false
-              })
-            )
+            stale.map(session => this.closeSession(session, Math.max(endTime, session.startTime)))
           )
         }
+
+        if (resumed) {
+          this.currentSessionId = resumed.sessionId
+          this.sessionStartTime = resumed.startTime
+          this.persist()
+          console.log(`Resumed session: ${resumed.sessionId}`)
+          return
+        }
+
         await this.startSession()
       }
     }
 
-    class DatabaseService {
-      static async upsertPage(url: string, title: string) {
-        const cleanedUrl = cleanUrl(url);
-        const domain = extractDomain(cleanedUrl);
-
-        const existingPage = await db.pages
-          .where('url')
-          .equals(cleanedUrl)
-          .first();
-
-        if (existingPage) {
-          const updatedPage = {
-            ...existingPage,
-            title,
-            lastVisit: Date.now(),
-            visitCount: existingPage.visitCount + 1
-          };
-
-          await db.pages.update(existingPage.id!, {
-            title: updatedPage.title,
-            lastVisit: updatedPage.lastVisit,
-            visitCount: updatedPage.visitCount
-          });
-
-          return updatedPage;
-        }
+    class TabManager {
+      private activeTabs = new Map<number, ActiveTab>()
+      // Last finished visit per tab, for events its page sends while being left
+      private previousVisits = new Map<number, ActiveTab>()
+      private currentFocusedTab?: number
+      private sessionManager: SessionManager
+      private badgeManager: BadgeManager
+      private idleTracker: IdleTracker
+      private ruleEngine: RuleEngine
+      private settingsStore: SettingsStore
+      private limitManager: LimitManager
 
-        const now = Date.now();
-        const newPage = {
-          url: cleanedUrl,
-          domain,
-          title,
-          firstVisit: now,
-          lastVisit: now,
-          totalActiveTime: 0,
-          visitCount: 1
-        };
+      constructor() {
+        this.sessionManager = SessionManager.getInstance()
+        this.badgeManager = BadgeManager.getInstance()
+        this.limitManager = LimitManager.getInstance()
+        this.ruleEngine = RuleEngine.getInstance(db)
+        this.settingsStore = SettingsStore.getInstance(db)
+        this.idleTracker = new IdleTracker(this.settingsStore.get('idleThresholdSeconds'))
 
-        const pageId = await db.pages.add(newPage);
-        return { ...newPage, id: pageId };
+        this.idleTracker.onIdleChange(isIdle => {
+          this.handleIdleChange(isIdle).catch(error => console.error('Failed to handle idle change:', error))
+        })
       }
 
-      static async addEvent(pageId: number, sessionId: string, type: string, data?: any) {
-        await db.events.add({
-          pageId,
-          sessionId,
-          timestamp: Date.now(),
-          type,
-          data
-        });
+      getByTabId(tabId: number): ActiveTab | undefined {
+        return this.activeTabs.get(tabId)
       }
 
-      static async startPageActivity(pageId: number) {
-        const page = await db.pages.get(pageId);
-        if (!page || page.currentSessionStart) return;
-
-        await db.pages.update(pageId, {
-          currentSessionStart: Date.now(),
-          lastVisit: Date.now()
-        });
+      /** The visit of `tabId` that was showing `url`: the current one or the one it just left. */
+      findVisit(tabId: number, url: string): ActiveTab | undefined {
+        return [this.activeTabs.get(tabId), this.previousVisits.get(tabId)].find(tab =>
+          tab && tab.url === (tab.isPrivate ? this.toPrivateUrl(url) : cleanUrl(url)))
       }
 
-      static async endPageActivity(pageId: number): Promise<number> {
-        const page = await db.pages.get(pageId);
-        if (!page?.currentSessionStart) return 0;
+      private retireVisit(tabId: number) {
+        const tab = this.activeTabs.get(tabId)
+        if (tab) {
+          this.previousVisits.set(tabId, tab)
+          this.activeTabs.delete(tabId)
+        }
+      }
 
-        const now = Date.now();
-        const sessionTime = now - page.currentSessionStart;
+      private persist() {
+        TrackingStateStore.getInstance().update({
+          tabs: Array.from(this.activeTabs.values(), tab => ({ ...tab })),
+          focusedTabId: this.currentFocusedTab
+        })
+      }
 
-        await db.pages.update(pageId, {
-          totalActiveTime: page.totalActiveTime + sessionTime,
-          currentSessionStart: undefined,
-          lastVisit: now
-        });
+      applyIdleThreshold(domain?: string) {
+        const override = domain
+          ? resolveDomainValue(this.settingsStore.get('idleOverrides'), domain)
+          : undefined
 
-        return sessionTime;
+        this.idleTracker.setIdleThreshold(override ?? this.settingsStore.get('idleThresholdSeconds'))
       }
 
-      static async getTodayActiveTime(): Promise<number> {
-        const startOfDay = new Date();
-        startOfDay.setHours(0, 0, 0, 0);
+      refreshIdleThreshold() {
+        this.applyIdleThreshold(this.getFocusedTab()?.domain)
+      }
 
-        const pages = await db.pages.toArray();
-        return pages.reduce((total, page) => {
-          const currentSession = page.currentSessionStart && page.currentSessionStart >= startOfDay.getTime()
-            ? Date.now() - page.currentSessionStart
-            : 0;
-          return total + page.totalActiveTime + currentSession;
-        }, 0);
+      private getFocusedTab(): ActiveTab | undefined {
+        return this.currentFocusedTab === undefined
+          ? undefined
+          : this.activeTabs.get(this.currentFocusedTab)
       }
 
-      static async getAllTabs() {
-        const tabs = await db.pages.toArray()
+      private async handleIdleChange(isIdle: boolean) {
+        console.log(`Tab Manager: Idle state changed to ${isIdle ? 'idle' : 'active'}`)
 
-        const groupedByDomain = tabs.reduce((acc, cur) => {
-          const domain = cur.domain
-          if (!acc[domain]) {
-            acc[domain] = []
+        const focusedTab = this.getFocusedTab()
+        if (focusedTab) {
+          if (isIdle) {
+            await this.endTabActivity(focusedTab.tabId)
+          } else {
+            await this.startTabActivity(focusedTab.tabId)
+            this.badgeManager.resetTabTime(focusedTab.tabId)
           }
-          acc[domain].push(cur)
-          return acc
-        }, {})
-
-        return groupedByDomain
-      }
 
-      static async getTopDomains(limit = 10) {
-        const pages = await db.pages.toArray();
-        const domainMap = new Map();
+          await this.recordTabEvent(focusedTab, isIdle ? CONST_EVENTS.IDLE_START : CONST_EVENTS.IDLE_END)
+        }
 
-        pages.forEach(page => {
-          const totalTime = page.totalActiveTime;
+        this.activeTabs.forEach(tab => {
+          tab.isIdle = isIdle
+        })
+        this.persist()
 
-          const existing = domainMap.get(page.domain) || {
-            totalTime: 0,
-            pageCount: 0,
-            visitCount: 0
-          };
+        await this.syncVisibleWindows()
+        await this.syncAllMediaActivity()
+      }
 
-          domainMap.set(page.domain, {
-            totalTime: existing.totalTime + totalTime,
-            pageCount: existing.pageCount + 1,
-            visitCount: existing.visitCount + page.visitCount
-          });
-        });
+      async handleAudibleChange(tabId: number, audible: boolean) {
+        const tab = this.activeTabs.get(tabId)
+        if (!tab) return
 
-        return Array.from(domainMap.entries())
-          .map(([domain, stats]) => ({ domain, ...stats }))
-          .sort((a, b) => b.totalTime - a.totalTime)
-          .slice(0, limit);
+        tab.isAudible = audible
+        this.persist()
+        await this.syncMediaActivity(tabId)
       }
 
-      static async getLastScrollDepth(pageId: number) {
-        const ev = await db.events
-          .where('type').equals(CONST_EVENTS.SCROLL_DEPTH)
-          .and(e => e.pageId === pageId)
-          .last()
+      async handleMediaStateChange(tabId: number, playing: boolean) {
+        const tab = this.activeTabs.get(tabId)
+        if (!tab) return
 
-        return ev?.data?.value ?? 0;
+        tab.isMediaPlaying = playing
+        this.persist()
+        await this.syncMediaActivity(tabId)
       }
 
-      static async countKeydowns(pageId: number) {
-        return db.events
-          .where('type').equals(CONST_EVENTS.KEYDOWN)
-          .and(e => e.pageId === pageId)
-          .count();
+      private isCountingActive(tab: ActiveTab): boolean {
+        return tab.isVisible && this.currentFocusedTab === tab.tabId && !this.idleTracker.getIdleState()
       }
 
-      static async getLastClick(pageId: number) {
-        const ev = await db.events
-          .where('type').equals(CONST_EVENTS.CLICK)
-          .and(e => e.pageId === pageId)
-          .last()
+      private async syncMediaActivity(tabId: number) {
+        const tab = this.activeTabs.get(tabId)
+        if (!tab) return
+
+        // Media on screen in another window already counts as visible time
+        const shouldBePassive = (tab.isAudible || tab.isMediaPlaying) && !this.isCountingActive(tab) && !tab.isWindowVisible
+        if (shouldBePassive === tab.isPassive) return
 
-        return ev?.data ?? null;
+        tab.isPassive = shouldBePassive
+        this.persist()
+        if (shouldBePassive) {
+          await DatabaseService.startPassiveActivity(tab.pageId)
+          console.log(`Started media tracking for tab ${tabId}: ${tab.url}`)
+        } else {
+          const passiveTime = await DatabaseService.endPassiveActivity(tab.pageId)
+          console.log(`Ended media tracking for tab ${tabId}: ${tab.url}, time: ${passiveTime}ms`)
+        }
       }
 
-      static async getPageIdFromUrl(pageUrl: string) {
-        const cleanUrl = pageUrl.split(/[?#]/)[0];
-        const page = await db.pages.where('url').equals(cleanUrl).first();
-        return page?.id ?? null;
+      private async syncAllMediaActivity() {
+        for (const tabId of this.activeTabs.keys()) {
+          await this.syncMediaActivity(tabId)
+        }
       }
 
+      private async endMediaActivity(tabId: number) {
+        const tab = this.activeTabs.get(tabId)
+        if (!tab?.isPassive) return
 
-      static async getTabTotalTime(pageUrl: string) {
-        const page = await db.pages.where('url').equals(pageUrl).first();
+        tab.isPassive = false
+        await DatabaseService.endPassiveActivity(tab.pageId)
+      }
 
-        return page.totalActiveTime
+      async saveMediaActivity() {
+        for (const tab of this.activeTabs.values()) {
+          if (!tab.isPassive) continue
+
+          await DatabaseService.endPassiveActivity(tab.pageId)
+          await DatabaseService.startPassiveActivity(tab.pageId)
+        }
       }
 
-      static async clearAllData() {
-        await db.transaction('rw', [db.pages, db.events, db.sessions], async () => {
-          await db.pages.clear();
-          await db.events.clear();
-          await db.sessions.clear();
-        });
+      /**
+       * In multi-window mode, credits visible time to the active tab of every
+       * non-minimized window other than the focused one. Minimizing fires no event,
+       * so besides focus changes this also runs at every checkpoint.
+       */
+      async syncVisibleWindows() {
+        const visibleTabIds = new Set<number>()
+
+        if (this.settingsStore.get('multiWindowTracking') && !this.idleTracker.getIdleState()) {
+          try {
+            const windows = await chrome.windows.getAll({ populate: true, windowTypes: ['normal'] })
+            windows
+              .filter(window => window.state !== 'minimized')
+              .forEach(window => {
+                const tabId = window.tabs?.find(tab => tab.active)?.id
+                if (tabId !== undefined && tabId !== this.currentFocusedTab) {
+                  visibleTabIds.add(tabId)
+                }
+              })
+          } catch (error) {
+            console.warn('Failed to query visible windows:', error)
+            return
+          }
+        }
+
+        for (const tabId of Array.from(this.activeTabs.keys())) {
+          await this.setWindowVisible(tabId, visibleTabIds.has(tabId))
+        }
       }
-    }
 
-    class TabManager {
-      private activeTabs = new Map<number, ActiveTab>()
-      private currentFocusedTab?: number
-      private sessionManager: SessionManager
-      private badgeManager: BadgeManager
-      private idleTracker: IdleTracker
+      private async setWindowVisible(tabId: number, visible: boolean) {
+        const tab = this.activeTabs.get(tabId)
+        if (!tab || tab.isWindowVisible === visible) return
 
-      constructor() {
-        this.sessionManager = SessionManager.getInstance()
-        this.badgeManager = BadgeManager.getInstance()
-        this.idleTracker = new IdleTracker(15)
+        tab.isWindowVisible = visible
+        this.persist()
+        if (visible) {
+          await DatabaseService.startVisibleActivity(tab.pageId)
+          console.log(`Started visible tracking for tab ${tabId}: ${tab.url}`)
+        } else {
+          const visibleTime = await DatabaseService.endVisibleActivity(tab.pageId)
+          console.log(`Ended visible tracking for tab ${tabId}: ${tab.url}, time: ${visibleTime}ms`)
+        }
 
-        this.idleTracker.onIdleChange(this.handleIdleChange.bind(this))
+        await this.syncMediaActivity(tabId)
       }
 
-      getByTabId(tabId: number): ActiveTab | undefined {
-        return this.activeTabs.get(tabId)
+      private async endWindowVisibility(tabId: number) {
+        const tab = this.activeTabs.get(tabId)
+        if (!tab?.isWindowVisible) return
+
+        tab.isWindowVisible = false
+        await DatabaseService.endVisibleActivity(tab.pageId)
       }
 
-      private handleIdleChange(isIdle: boolean) {
-        console.log(`Tab Manager: Idle state changed to ${isIdle ? 'idle' : 'active'}`)
+      async saveVisibleActivity() {
+        for (const tab of this.activeTabs.values()) {
+          if (!tab.isWindowVisible) continue
 
-        if (isIdle) {
-          if (this.currentFocusedTab) {
-            this.endTabActivity(this.currentFocusedTab)
-          }
-        } else {
-          if (this.currentFocusedTab) {
-            this.startTabActivity(this.currentFocusedTab)
-            this.badgeManager.resetTabTime(this.currentFocusedTab)
-          }
+          await DatabaseService.endVisibleActivity(tab.pageId)
+          await DatabaseService.startVisibleActivity(tab.pageId)
         }
-
-        this.activeTabs.forEach(tab => {
-          tab.isIdle = isIdle
-        })
       }
 
       async handlePageView(tabId: number, url: string, title: string) {
         await this.endTabActivity(tabId)
+        await this.endWindowVisibility(tabId)
+        await this.endMediaActivity(tabId)
+
+        const decision = this.ruleEngine.evaluateUrl(url)
+        if (decision === 'block') {
+          this.retireVisit(tabId)
+          this.persist()
+          console.log(`Page view ignored by domain rules (tab ${tabId})`)
+          return
+        }
+
+        const isPrivate = decision === 'private'
+        const page = isPrivate
+          ? await DatabaseService.upsertPage(this.toPrivateUrl(url), extractDomain(url))
+          : await DatabaseService.upsertPage(url, title)
 
-        const page = await DatabaseService.upsertPage(url, title)
+        // A reload, or the content script reporting a load the tab already did, stays in the same visit
+        const current = this.activeTabs.get(tabId)
+        const visit = current?.pageId === page.id ? current : undefined
+        if (!visit) this.retireVisit(tabId)
+        const visitId = visit?.visitId ?? createVisitId()
 
         await DatabaseService.addEvent(
           page.id!,
           this.sessionManager.getCurrentSessionId(),
           CONST_EVENTS.PAGE_VIEW,
-          { referrer: await this.getTabReferrer(tabId) }
+          isPrivate ? undefined : { referrer: await this.getTabReferrer(tabId) },
+          visitId
         )
 
         this.activeTabs.set(tabId, {
           tabId,
           pageId: page.id!,
+          visitId,
+          visitActiveTime: visit?.visitActiveTime ?? 0,
           url: page.url,
           domain: page.domain,
           isVisible: this.currentFocusedTab === tabId,
           isIdle: this.idleTracker.getIdleState(),
+          isPrivate,
+          isAudible: false,
+          isMediaPlaying: false,
+          isPassive: false,
+          isWindowVisible: false,
           lastActivityTime: Date.now()
         })
+        this.persist()
 
         console.log(`Page view: ${page.url} (tab ${tabId})`)
 
+        if (this.currentFocusedTab === tabId) {
+          this.applyIdleThreshold(page.domain)
+        }
+
         this.badgeManager.resetTabTime(tabId)
 
         const totalTime = await DatabaseService.getTabTotalTime(page.url) || 0;
         this.badgeManager.setCurrentTabData(tabId, totalTime, page.url);
+        await this.refreshLimitStatus(tabId)
 
         if (this.currentFocusedTab === tabId && !this.idleTracker.getIdleState()) {
+          // Focus moves to the new page with the tab; reports replay stretches from this
+          await this.recordTabEvent(this.activeTabs.get(tabId)!, CONST_EVENTS.FOCUS_GAIN)
           await this.startTabActivity(tabId)
+        } else {
+          await this.syncVisibleWindows()
         }
       }
 
       async handleTabFocusGain(tabId: number) {
-        if (this.currentFocusedTab && this.currentFocusedTab !== tabId) {
-          await this.endTabActivity(this.currentFocusedTab)
+        const previousTabId = this.currentFocusedTab
+        if (previousTabId && previousTabId !== tabId) {
+          await this.endTabActivity(previousTabId)
+          await this.recordFocusLost(previousTabId)
         }
 
         this.currentFocusedTab = tabId
+        this.persist()
+        await this.syncVisibleWindows()
+
+        if (previousTabId && previousTabId !== tabId) {
+          await this.syncMediaActivity(previousTabId)
+        }
 
         const tab = this.activeTabs.get(tabId)
+        this.applyIdleThreshold(tab?.domain)
+
         if (tab) {
           tab.isVisible = true
           tab.lastActivityTime = Date.now()
+          this.persist()
 
-          await DatabaseService.addEvent(
-            tab.pageId,
-            this.sessionManager.getCurrentSessionId(),
-            CONST_EVENTS.FOCUS_GAIN
-          )
+          await this.recordTabEvent(tab, CONST_EVENTS.FOCUS_GAIN)
 
           this.badgeManager.resetTabTime(tabId)
 
           const totalTime = await DatabaseService.getTabTotalTime(tab.url) || 0;
           this.badgeManager.setCurrentTabData(tabId, totalTime, tab.url);
+          await this.refreshLimitStatus(tabId)
 
           if (!this.idleTracker.getIdleState()) {
             await this.startTabActivity(tabId)
           }
+
+          await this.syncMediaActivity(tabId)
         }
       }
 
@@ -418,34 +502,51 @@ export default defineBackground(() => {
         if (savedTime && savedTime > 0) {
           const newTotalTime = await DatabaseService.getTabTotalTime(tab.url) || 0;
           this.badgeManager.updateCurrentTabTotalTime(newTotalTime);
+          await this.refreshLimitStatus(tabId);
 
           await this.startTabActivity(tabId);
         }
       }
 
+      /** Hands the badge the daily limit of the page shown in `tabId`. */
+      async refreshLimitStatus(tabId = this.currentFocusedTab) {
+        const tab = tabId === undefined ? undefined : this.activeTabs.get(tabId)
+        if (!tab) return
+
+        this.badgeManager.setLimitStatus(tab.tabId, await this.limitManager.getStatus(tab.domain))
+      }
+
       async handleTabClose(tabId: number) {
         const tab = this.activeTabs.get(tabId)
         if (tab) {
           await this.endTabActivity(tabId)
-          await DatabaseService.addEvent(
-            tab.pageId,
-            this.sessionManager.getCurrentSessionId(),
-            CONST_EVENTS.TAB_CLOSE
-          )
+          await this.endWindowVisibility(tabId)
+          await this.endMediaActivity(tabId)
+          await this.recordTabEvent(tab, CONST_EVENTS.TAB_CLOSE)
         }
 
+        // A closed tab sends nothing more, so its visits can go
         this.activeTabs.delete(tabId)
+        this.previousVisits.delete(tabId)
         if (this.currentFocusedTab === tabId) {
           this.currentFocusedTab = undefined
         }
+        this.persist()
       }
 
       async handleWindowFocusChanged(windowId: number) {
         if (windowId === chrome.windows.WINDOW_ID_NONE) {
-          if (this.currentFocusedTab) {
-            await this.endTabActivity(this.currentFocusedTab)
+          const previousTabId = this.currentFocusedTab
+          if (previousTabId) {
+            await this.endTabActivity(previousTabId)
+            await this.recordFocusLost(previousTabId)
             this.currentFocusedTab = undefined
+            this.persist()
+            await this.syncMediaActivity(previousTabId)
           }
+          // Nothing in the browser has focus, but its windows may still be in view
+          await this.syncVisibleWindows()
+          this.applyIdleThreshold()
         } else {
           try {
             const tabs = await chrome.tabs.query({ active: true, windowId })
@@ -466,7 +567,12 @@ export default defineBackground(() => {
           await this.handleTabFocusGain(tabId)
         } else if (!visible && tab.isVisible) {
           await this.endTabActivity(tabId)
+          if (this.currentFocusedTab === tabId) {
+            await this.recordFocusLost(tabId)
+          }
           tab.isVisible = false
+          this.persist()
+          await this.syncMediaActivity(tabId)
         }
       }
 
@@ -477,6 +583,7 @@ export default defineBackground(() => {
         if (tab.isVisible && !this.idleTracker.getIdleState() && this.currentFocusedTab === tabId) {
           await DatabaseService.startPageActivity(tab.pageId)
           tab.lastActivityTime = Date.now()
+          this.badgeManager.setCounting(true)
           console.log(`Started activity tracking for tab ${tabId}: ${tab.url}`)
         }
       }
@@ -485,14 +592,68 @@ export default defineBackground(() => {
         const tab = this.activeTabs.get(tabId)
         if (!tab) return undefined
 
-        const activeTime = await DatabaseService.endPageActivity(tab.pageId)
-        if (activeTime && activeTime > 0) {
+        if (tabId === this.currentFocusedTab) this.badgeManager.setCounting(false)
+        const interval = await DatabaseService.endPageActivity(tab.pageId)
+        if (!interval) return 0
+
+        // Ended time counts towards the domain's daily limits
+        await this.limitManager.record(interval.domain, interval.start, interval.end)
+        const activeTime = interval.end - interval.start
+        if (activeTime > 0) {
+          tab.visitActiveTime += activeTime
+          this.persist()
+          await this.sessionManager.addActiveTime(activeTime)
           console.log(`Ended activity tracking for tab ${tabId}: ${tab.url}, time: ${activeTime}ms`)
         }
 
         return activeTime
       }
 
+      private async recordTabEvent(tab: ActiveTab, type: string) {
+        await DatabaseService.addEvent(
+          tab.pageId,
+          this.sessionManager.getCurrentSessionId(),
+          type,
+          { activeTimeMs: tab.visitActiveTime },
+          tab.visitId
+        )
+      }
+
+      /**
+       * Switching tabs, blurring the window and the page turning hidden all end focus,
+       * in no fixed order; whichever is handled first records it while the tab still
+       * counts as visible.
+       */
+      private async recordFocusLost(tabId: number) {
+        const tab = this.activeTabs.get(tabId)
+        if (!tab?.isVisible) return
+
+        await this.recordTabEvent(tab, CONST_EVENTS.FOCUS_LOST)
+      }
+
+      private toPrivateUrl(url: string): string {
+        try {
+          const urlObj = new URL(url)
+          return `${urlObj.protocol}//${urlObj.host}/`
+        } catch {
+          return url
+        }
+      }
+
+      async applyDomainRules() {
+        for (const [tabId, tab] of this.activeTabs) {
+          const decision = this.ruleEngine.evaluate(tab.domain)
+
+          if (decision === 'block' || (decision === 'private' && !tab.isPrivate)) {
+            await this.endTabActivity(tabId)
+            await this.endWindowVisibility(tabId)
+            await this.endMediaActivity(tabId)
+            this.retireVisit(tabId)
+          }
+        }
+        this.persist()
+      }
+
       private async getTabReferrer(tabId: number): Promise<string | undefined> {
         try {
           const tab = await chrome.tabs.get(tabId)
@@ -505,7 +666,7 @@ export default defineBackground(() => {
       getCurrentTab(): ActiveTab | null {
         const focusedId = this.currentFocusedTab
 
-        console.debug('[TabManager] getCurrentTab:', {
+        debugLog('[TabManager] getCurrentTab:', {
           focusedId,
           existingKeys: Array.from(this.activeTabs.keys())
         })
@@ -524,22 +685,53 @@ export default defineBackground(() => {
         return tab
       }
 
-      async initialize() {
+      /**
+       * Builds the tab map from the open tabs. Given the state of a suspended worker,
+       * tabs still showing the same page are taken over as they were rather than
+       * counted as new visits.
+       */
+      async initialize(restored?: TrackingState) {
         try {
+          // Nothing was observed after the last heartbeat (or at all, after a browser start)
+          const closed = await DatabaseService.closeOpenIntervals(restored?.heartbeat ?? 0)
+          for (const interval of closed) {
+            await this.limitManager.record(interval.domain, interval.start, interval.end)
+          }
+
+          const restoredTabs = new Map((restored?.tabs || []).map(tab => [tab.tabId, tab]))
           const tabs = await chrome.tabs.query({})
 
           for (const tab of tabs) {
             if (tab.id && tab.url && !tab.url.startsWith('chrome://')) {
-              const page = await DatabaseService.upsertPage(tab.url, tab.title || '')
+              const decision = this.ruleEngine.evaluateUrl(tab.url)
+              if (decision === 'block') continue
+
+              const isPrivate = decision === 'private'
+              const pageUrl = isPrivate ? this.toPrivateUrl(tab.url) : cleanUrl(tab.url)
+              const previous = restoredTabs.get(tab.id)
+              const resumed = previous?.url === pageUrl && previous.isPrivate === isPrivate
+
+              const page = resumed
+                ? { id: previous.pageId, url: previous.url, domain: previous.domain }
+                : isPrivate
+                  ? await DatabaseService.upsertPage(pageUrl, extractDomain(tab.url))
+                  : await DatabaseService.upsertPage(tab.url, tab.title || '')
 
               this.activeTabs.set(tab.id, {
                 tabId: tab.id,
                 pageId: page.id!,
+                visitId: resumed ? previous.visitId : createVisitId(),
+                visitActiveTime: resumed ? previous.visitActiveTime : 0,
                 url: page.url,
                 domain: page.domain,
                 isVisible: tab.active,
                 isIdle: this.idleTracker.getIdleState(),
-                lastActivityTime: Date.now()
+                isPrivate,
+                isAudible: !!tab.audible,
+                isMediaPlaying: resumed ? previous.isMediaPlaying : false,
+                isPassive: false,
+                isWindowVisible: false,
+                lastActivityTime: resumed ? previous.lastActivityTime : Date.now()
               })
 
               if (tab.active) {
@@ -547,8 +739,9 @@ export default defineBackground(() => {
                   const window = await chrome.windows.get(tab.windowId)
                   if (window.focused) {
                     this.currentFocusedTab = tab.id
+                    this.applyIdleThreshold(page.domain)
                     await this.startTabActivity(tab.id)
-                    this.badgeManager.resetTabTime(tab.id)
+                    if (!resumed) this.badgeManager.resetTabTime(tab.id)
                   }
                 } catch (error) {
                   console.warn(`Could not get window info for tab ${tab.id}:`, error)
@@ -557,6 +750,10 @@ export default defineBackground(() => {
             }
           }
 
+          this.persist()
+          await this.syncVisibleWindows()
+          await this.syncAllMediaActivity()
+
           console.log(`Initialized tab manager with ${this.activeTabs.size} tabs`)
         } catch (error) {
           console.error(`Error initializing tab manager: ${error}`)
@@ -566,10 +763,14 @@ export default defineBackground(() => {
       async cleanup() {
         for (const tabId of this.activeTabs.keys()) {
           await this.endTabActivity(tabId)
+          await this.endWindowVisibility(tabId)
+          await this.endMediaActivity(tabId)
         }
         this.activeTabs.clear()
+        this.previousVisits.clear()
         this.currentFocusedTab = undefined
-        this.idleTracker.cleanup()
+        this.persist()
+        this.applyIdleThreshold()
       }
     }
 
@@ -577,36 +778,151 @@ export default defineBackground(() => {
       private tabManager: TabManager;
       private sessionManager: SessionManager;
       private badgeManager: BadgeManager;
-      private isTrackingEnabled = true;
+      private ruleEngine: RuleEngine;
+      private settingsStore: SettingsStore;
+      private dataImporter: DataImporter;
+      private dataExporter: DataExporter;
+      private scheduler: Scheduler;
+      private retentionManager: RetentionManager;
+      private eventCompactor: EventCompactor;
+      private limitManager: LimitManager;
+      private focusGuard: FocusGuard;
+      private reportBuilder: ReportBuilder;
+      private pendingBatches = 0;
 
       constructor() {
         this.tabManager = new TabManager();
         this.sessionManager = SessionManager.getInstance();
         this.badgeManager = BadgeManager.getInstance();
-        this.init();
+        this.ruleEngine = RuleEngine.getInstance(db);
+        this.settingsStore = SettingsStore.getInstance(db);
+        this.dataImporter = DataImporter.getInstance(db);
+        this.dataExporter = DataExporter.getInstance(db);
+        this.retentionManager = RetentionManager.getInstance(db);
+        this.eventCompactor = EventCompactor.getInstance(db);
+        this.limitManager = LimitManager.getInstance();
+        this.focusGuard = FocusGuard.getInstance();
+        this.reportBuilder = ReportBuilder.getInstance(db);
+        this.scheduler = Scheduler.getInstance();
+
+        this.registerJobs();
+        this.scheduler.setReady(this.init());
+      }
+
+      private registerJobs() {
+        this.scheduler.register('checkpoint', { periodInMinutes: 0.5 }, async () => {
+          TrackingStateStore.getInstance().heartbeat();
+          await this.saveCurrentSessions();
+          await this.enforceFocusOnActiveTabs();
+        });
+
+        this.scheduler.register('badge-refresh', { periodInMinutes: 0.5 }, async () => {
+          await this.badgeManager.refresh();
+        });
+
+        this.scheduler.register('compaction', { periodInMinutes: 15 }, async () => {
+          await this.eventCompactor.compact(this.settingsStore.get('rawEventWindowDays'));
+        });
+
+        this.scheduler.register('retention', { periodInMinutes: 24 * 60, delayInMinutes: 5 }, async () => {
+          if (!this.settingsStore.get('autoCleanup')) return;
+          await this.eventCompactor.compact(this.settingsStore.get('rawEventWindowDays'));
+          await this.retentionManager.cleanup(this.getRetentionPolicy());
+        });
+
+        // Closes the day: open intervals are split at midnight and the badge's "today" restarts from zero
+        this.scheduler.register('daily-rollup', { at: () => getStartOfNextDay(Date.now()) }, async () => {
+          await this.saveCurrentSessions();
+          await this.refreshBadgeTodayTime();
+        });
+      }
+
+      private getRetentionPolicy(): RetentionPolicy {
+        return {
+          interactionDays: this.settingsStore.get('interactionRetentionDays'),
+          sessionDays: this.settingsStore.get('sessionRetentionDays'),
+          pageDays: this.settingsStore.get('retentionDays')
+        };
+      }
+
+      private getLimitConfig(): LimitConfig {
+        return {
+          limits: this.settingsStore.get('dailyLimits'),
+          categoryLimits: this.settingsStore.get('categoryLimits'),
+          categoryOverrides: this.settingsStore.get('categoryOverrides'),
+          thresholds: this.settingsStore.get('limitAlertThresholds'),
+          resetHour: this.settingsStore.get('limitResetHour')
+        };
+      }
+
+      private getFocusConfig(): FocusConfig {
+        return {
+          enabled: this.settingsStore.get('focusModeEnabled'),
+          domains: this.settingsStore.get('focusDomains'),
+          startHour: this.settingsStore.get('focusStartHour'),
+          endHour: this.settingsStore.get('focusEndHour')
+        };
+      }
+
+      private get isTrackingEnabled(): boolean {
+        // A replace import rewrites the tables tracking writes to
+        return this.settingsStore.get('trackingEnabled') && !this.dataImporter.isReplacing();
+      }
+
+      private async resumeAfterImport() {
+        // Replacing dropped the rows the live session and open tabs pointed at
+        await this.sessionManager.initialize();
+        if (this.isTrackingEnabled) {
+          await this.tabManager.initialize();
+        }
       }
 
       private async init() {
         console.log('Initializing Activity Analytics Extension...');
 
         try {
+          const stateStore = TrackingStateStore.getInstance();
+          const restored = await stateStore.load();
+          if (restored) {
+            console.log(`Restoring tracking state from ${new Date(restored.heartbeat).toISOString()}`);
+            this.badgeManager.restore(restored);
+          }
+
           await db.open();
-          await this.sessionManager.initialize();
-          await this.tabManager.initialize();
+          await this.settingsStore.initialize();
+          await this.ruleEngine.initialize();
+          await this.sessionManager.initialize(restored ?? undefined);
+
+          const settings = this.settingsStore.getAll();
+          setDetailedLogging(settings.detailedLogging);
+          this.limitManager.setConfig(this.getLimitConfig());
+          this.focusGuard.setConfig(this.getFocusConfig());
+          this.tabManager.applyIdleThreshold();
+          this.badgeManager.setEnabled(settings.trackingEnabled && settings.badgeEnabled);
+          this.badgeManager.setMode(settings.badgeMode);
+          await this.refreshBadgeTodayTime();
+
+          if (settings.trackingEnabled) {
+            await this.tabManager.initialize(restored ?? undefined);
+          }
 
+          this.settingsStore.subscribe(this.handleSettingsChanged.bind(this));
+          this.dataImporter.onReplaceEnd(() => {
+            this.resumeAfterImport().catch(error => console.error('Failed to resume tracking after import:', error));
+          });
           this.setupEventListeners();
           this.setupMessageHandler();
 
-          const settings = await chrome.storage.sync.get(['badgeEnabled']);
-          this.badgeManager.setEnabled(settings.badgeEnabled !== false);
-
-          setInterval(() => {
-            this.saveCurrentSessions();
-          }, 30000);
-
           console.log('Background service initialized successfully');
         } catch (error) {
           console.error('Failed to initialize background service:', error);
+
+          // A database from a newer release can't be read; say so instead of failing silently
+          if (error instanceof Error && error.name === 'VersionError') {
+            chrome.action.setBadgeText({ text: '!' });
+            chrome.action.setBadgeBackgroundColor({ color: '#F44336' });
+            chrome.action.setTitle({ title: error.message });
+          }
         }
       }
 
@@ -618,20 +934,84 @@ export default defineBackground(() => {
           if (currentTab) {
             await this.tabManager.saveCurrentActivity(currentTab.tabId);
           }
+          await this.tabManager.saveMediaActivity();
+          await this.tabManager.saveVisibleActivity();
+          await this.tabManager.syncVisibleWindows();
+          await this.refreshBadgeTodayTime();
         } catch (error) {
           console.error('Failed to save current sessions:', error);
         }
       }
 
+      private async refreshBadgeTodayTime() {
+        if (this.settingsStore.get('badgeMode') !== 'today') return;
+        this.badgeManager.setTodayTime(await DatabaseService.getTodayActiveTime());
+      }
+
+      private async handleSettingsChanged(settings: ExtensionSettings, changed: SettingKey[]) {
+        if (changed.includes('detailedLogging')) {
+          setDetailedLogging(settings.detailedLogging);
+        }
+
+        if (changed.includes('trackingEnabled')) {
+          if (this.isTrackingEnabled) {
+            await this.tabManager.initialize();
+          } else {
+            await this.tabManager.cleanup();
+          }
+        }
+
+        if (changed.includes('idleThresholdSeconds') || changed.includes('idleOverrides')) {
+          this.tabManager.refreshIdleThreshold();
+        }
+
+        const limitKeys: SettingKey[] = ['dailyLimits', 'categoryLimits', 'categoryOverrides', 'limitAlertThresholds', 'limitResetHour'];
+        if (changed.some(key => limitKeys.includes(key))) {
+          this.limitManager.setConfig(this.getLimitConfig());
+          await this.tabManager.refreshLimitStatus();
+        }
+
+        if (changed.some(key => key === 'focusModeEnabled' || key === 'focusDomains' || key === 'focusStartHour' || key === 'focusEndHour')) {
+          this.focusGuard.setConfig(this.getFocusConfig());
+          await this.enforceFocusOnActiveTabs();
+        }
+
+        if (changed.includes('multiWindowTracking') && settings.trackingEnabled) {
+          await this.tabManager.syncVisibleWindows();
+        }
+
+        if (changed.includes('trackingEnabled') || changed.includes('badgeEnabled')) {
+          this.badgeManager.setEnabled(settings.trackingEnabled && settings.badgeEnabled);
+        }
+
+        if (changed.includes('badgeMode')) {
+          await this.refreshBadgeTodayTime();
+          this.badgeManager.setMode(settings.badgeMode);
+        }
+      }
+
       private setupEventListeners() {
         chrome.tabs.onActivated.addListener(this.handleTabActivated.bind(this));
         chrome.tabs.onUpdated.addListener(this.handleTabUpdated.bind(this));
         chrome.tabs.onRemoved.addListener(this.handleTabRemoved.bind(this));
         chrome.windows.onFocusChanged.addListener(this.handleWindowFocusChanged.bind(this));
+        // Checked before the request goes out so a blocked page never shows; history updates cover in-page routes
+        chrome.webNavigation.onBeforeNavigate.addListener(this.handleNavigation.bind(this));
+        chrome.webNavigation.onHistoryStateUpdated.addListener(this.handleNavigation.bind(this));
       }
 
       private setupMessageHandler() {
-        chrome.runtime.onMessage.addListener((message: BaseMessage, sender, sendResponse) => {
+        chrome.runtime.onMessage.addListener((raw: unknown, sender, sendResponse) => {
+          let message: Message;
+
+          try {
+            message = validateMessage(raw);
+          } catch (error) {
+            console.warn('Rejected message:', error);
+            sendResponse({ success: false, error: (error as Error).message });
+            return false;
+          }
+
           this.handleMessage(message, sender)
             .then(response => sendResponse({ success: true, data: response }))
             .catch(error => {
@@ -643,84 +1023,114 @@ export default defineBackground(() => {
       }
 
 
-      private async handleMessage(message: BaseMessage, sender: chrome.runtime.MessageSender) {
-        if (!this.isTrackingEnabled && !['IS_TRACKING_ENABLED', 'RESUME_TRACKING'].includes(message.type)) {
+      private async handleMessage(
+        message: Message,
+        sender: chrome.runtime.MessageSender
+      ): Promise<MessageResponseMap[MessageType]> {
+        const alwaysHandled: MessageType[] = [
+          CONST_EVENTS.IS_TRACKING_ENABLED,
+          CONST_EVENTS.RESUME_TRACKING,
+          CONST_EVENTS.GET_SETTINGS,
+          CONST_EVENTS.UPDATE_SETTINGS,
+          CONST_EVENTS.SET_BADGE_ENABLED,
+          CONST_EVENTS.GET_DOMAIN_RULES,
+          CONST_EVENTS.ADD_DOMAIN_RULE,
+          CONST_EVENTS.UPDATE_DOMAIN_RULE,
+          CONST_EVENTS.REMOVE_DOMAIN_RULE,
+          CONST_EVENTS.GET_STORAGE_USAGE,
+          CONST_EVENTS.GET_JOB_STATUS,
+          CONST_EVENTS.RUN_CLEANUP,
+          CONST_EVENTS.EXPORT_DATA,
+          CONST_EVENTS.EXPORT_CHUNK,
+          CONST_EVENTS.EXPORT_BACKUP_CHUNK,
+          CONST_EVENTS.IMPORT_START,
+          CONST_EVENTS.IMPORT_CHUNK,
+          CONST_EVENTS.IMPORT_FINISH,
+          CONST_EVENTS.GET_BLOCK_INFO,
+          CONST_EVENTS.ALLOW_BYPASS,
+          CONST_EVENTS.GET_REPORT,
+          CONST_EVENTS.GET_HEATMAP,
+          CONST_EVENTS.GET_DAILY_TREND,
+          CONST_EVENTS.GET_RANGE_STATS
+        ];
+
+        if (!this.isTrackingEnabled && !alwaysHandled.includes(message.type)) {
           return null;
         }
 
-        const trackableEvents = [
-          CONST_EVENTS.SCROLL_DEPTH,
-          CONST_EVENTS.CLICK,
-          CONST_EVENTS.KEYDOWN,
-          CONST_EVENTS.FORM_INTERACTION,
-          CONST_EVENTS.SPA_ROUTE_CHANGE
-        ];
-
-        if (trackableEvents.includes(message.type) && sender.tab?.id) {
-          const tab = this.tabManager.getCurrentTab();
-          if (tab) {
-            console.log(`SAVING EVENT: ${message.type}`);
-            await DatabaseService.addEvent(
-              tab.pageId,
-              this.sessionManager.getCurrentSessionId(),
-              message.type,
-              message.data
-            );
-          }
+        if (message.type in INTERACTION_SETTINGS) {
+          // Unbatched senders may leave out the timestamp; it happened about now
+          const event = validateQueuedEvent({ ...message, timestamp: message.timestamp ?? Date.now() });
+          await this.recordInteractions([event], sender);
           return null;
         }
 
         switch (message.type) {
-          case CONST_EVENTS.GET_TODAY_TIME:
+          case CONST_EVENTS.GET_TODAY_TIME: {
             const todayTime = await DatabaseService.getTodayActiveTime();
-            return { todayTime };
+            return { todayTime } satisfies MessageResponseMap['GET_TODAY_TIME'];
+          }
 
-          case 'GET_ALL_TABS':
+          case CONST_EVENTS.GET_RANGE_STATS: {
+            const { start, end } = message.data;
+            if (start >= end) {
+              throw new Error('GET_RANGE_STATS requires start < end');
+            }
+
+            return DatabaseService.getRangeStats(start, end, Infinity, this.settingsStore.get('categoryOverrides')) satisfies Promise<MessageResponseMap['GET_RANGE_STATS']>;
+          }
+
+          case CONST_EVENTS.GET_DAILY_TREND: {
+            const { start, end } = message.data;
+            if (start >= end) {
+              throw new Error('GET_DAILY_TREND requires start < end');
+            }
+
+            return DatabaseService.getDailyTrend(start, end) satisfies Promise<MessageResponseMap['GET_DAILY_TREND']>;
+          }
+
+          case CONST_EVENTS.GET_ALL_TABS: {
             const allTabs = await DatabaseService.getAllTabs()
-            return { allTabs }
+            return { allTabs } satisfies MessageResponseMap['GET_ALL_TABS']
+          }
 
-          case 'GET_METRICS': {
-            let url = message.data?.url;
+          case CONST_EVENTS.GET_METRICS: {
+            let url = message.data.url;
 
             if (!url) {
-              return { url: null, scroll: 0, click: null, keydown: 0 };
+              return { url: null, scroll: 0, click: null, keydown: 0 } satisfies MessageResponseMap['GET_METRICS'];
             }
 
             let pageId = await DatabaseService.getPageIdFromUrl(url);
 
-            console.log(pageId)
-
             if (!pageId) {
-              return { url, scroll: 0, click: null, keydown: 0 };
+              return { url, scroll: 0, click: null, keydown: 0 } satisfies MessageResponseMap['GET_METRICS'];
             }
 
-            const [scroll, click, keydown] = await Promise.all([
-              DatabaseService.getLastScrollDepth(pageId),
-              DatabaseService.getLastClick(pageId),
-              DatabaseService.countKeydowns(pageId),
-            ]);
+            const metrics = await this.eventCompactor.getPageMetrics(pageId);
 
-            return { url, pageId, scroll, click, keydown };
+            return { url, pageId, ...metrics } satisfies MessageResponseMap['GET_METRICS'];
           }
 
 
           case CONST_EVENTS.GET_STATS: {
-            const topDomains = await DatabaseService.getTopDomains(10);
+            const domains = await DatabaseService.getTopDomains(Infinity, this.settingsStore.get('categoryOverrides'));
             const currentTab = this.tabManager.getCurrentTab();
 
             let lastScroll = 0;
             let keydownCount = 0;
-            let lastClick: any = null;
+            let lastClick: ClickData | null = null;
 
             if (currentTab) {
-              const pageId = currentTab.pageId;
-              lastScroll = await DatabaseService.getLastScrollDepth(pageId);
-              keydownCount = await DatabaseService.countKeydowns(pageId);
-              lastClick = await DatabaseService.getLastClick(pageId);
+              const metrics = await this.eventCompactor.getPageMetrics(currentTab.pageId);
+              lastScroll = metrics.scroll;
+              keydownCount = metrics.keydown;
+              lastClick = metrics.click;
             }
 
             return {
-              topDomains,
+              topDomains: domains,
+              categories: DatabaseService.sumCategories(domains),
               currentTab: currentTab
                 ? {
                   url: currentTab.url,
@@ -731,40 +1141,102 @@ export default defineBackground(() => {
                   lastClick
                 }
                 : null
-            };
+            } satisfies MessageResponseMap['GET_STATS'];
+          }
+
+
+          case CONST_EVENTS.GET_DOMAIN_RULES:
+            return { rules: this.ruleEngine.getRules() } satisfies MessageResponseMap['GET_DOMAIN_RULES'];
+
+          case CONST_EVENTS.ADD_DOMAIN_RULE: {
+            const { domain, ruleType } = message.data;
+            const rule = await this.ruleEngine.addRule(domain, ruleType);
+            await this.tabManager.applyDomainRules();
+            return { rule } satisfies MessageResponseMap['ADD_DOMAIN_RULE'];
           }
 
+          case CONST_EVENTS.UPDATE_DOMAIN_RULE: {
+            const { id, isActive } = message.data;
+            await this.ruleEngine.setRuleActive(id, isActive);
+            await this.tabManager.applyDomainRules();
+            return { success: true };
+          }
+
+          case CONST_EVENTS.REMOVE_DOMAIN_RULE:
+            await this.ruleEngine.removeRule(message.data.id);
+            await this.tabManager.applyDomainRules();
+            return { success: true };
 
           case CONST_EVENTS.IS_TRACKING_ENABLED:
-            return { enabled: this.isTrackingEnabled };
+            return { enabled: this.isTrackingEnabled } satisfies MessageResponseMap['IS_TRACKING_ENABLED'];
 
           case CONST_EVENTS.PAUSE_TRACKING:
-            this.isTrackingEnabled = false;
-            this.badgeManager.disable();
-            await this.tabManager.cleanup();
+            await this.settingsStore.set('trackingEnabled', false);
             return { success: true };
 
           case CONST_EVENTS.RESUME_TRACKING:
-            this.isTrackingEnabled = true;
-            this.badgeManager.enable();
-            await this.tabManager.initialize();
+            await this.settingsStore.set('trackingEnabled', true);
             return { success: true };
 
           case CONST_EVENTS.SET_BADGE_ENABLED:
-            const { enabled } = message.data;
-            this.badgeManager.setEnabled(enabled);
-            await chrome.storage.sync.set({ badgeEnabled: enabled });
+            await this.settingsStore.set('badgeEnabled', message.data.enabled);
             return { success: true };
 
-          case CONST_EVENTS.EXPORT_DATA:
+          case CONST_EVENTS.GET_SETTINGS:
+            return { settings: this.settingsStore.getAll() } satisfies MessageResponseMap['GET_SETTINGS'];
+
+          case CONST_EVENTS.UPDATE_SETTINGS:
+            return { settings: await this.settingsStore.update(message.data) } satisfies MessageResponseMap['UPDATE_SETTINGS'];
+
+          case CONST_EVENTS.EXPORT_DATA: {
             const data = {
               pages: await db.pages.toArray(),
               events: await db.events.toArray(),
               sessions: await db.sessions.toArray(),
+              dailyActivity: await db.daily_activity.toArray(),
               exportDate: new Date().toISOString(),
-              version: '1.0'
+              version: EXPORT_VERSION
             };
             return data;
+          }
+
+          case CONST_EVENTS.EXPORT_CHUNK:
+            return this.dataExporter.exportChunk(message.data, this.settingsStore.get('categoryOverrides')) satisfies Promise<MessageResponseMap['EXPORT_CHUNK']>;
+
+          case CONST_EVENTS.EXPORT_BACKUP_CHUNK:
+            return this.dataExporter.exportBackupChunk(message.data) satisfies Promise<MessageResponseMap['EXPORT_BACKUP_CHUNK']>;
+
+          case CONST_EVENTS.IMPORT_START: {
+            // Open tabs stop writing before a replace import empties the tables; they resume when it ends
+            if (message.data.mode === 'replace' && !message.data.dryRun && !this.dataImporter.isReplacing()) {
+              await this.tabManager.cleanup();
+            }
+
+            const importId = await this.dataImporter.startImport(message.data);
+            return { importId } satisfies MessageResponseMap['IMPORT_START'];
+          }
+
+          case CONST_EVENTS.IMPORT_CHUNK: {
+            const { importId, table, rows } = message.data;
+            await this.dataImporter.importChunk(importId, table, rows);
+            return { success: true } satisfies MessageResponseMap['IMPORT_CHUNK'];
+          }
+
+          case CONST_EVENTS.IMPORT_FINISH:
+            return this.dataImporter.finishImport(message.data.importId) satisfies MessageResponseMap['IMPORT_FINISH'];
+
+          case CONST_EVENTS.GET_STORAGE_USAGE:
+            return {
+              ...await DatabaseService.getStorageUsage(),
+              lastCleanup: await this.retentionManager.getLastReport()
+            } satisfies MessageResponseMap['GET_STORAGE_USAGE'];
+
+          case CONST_EVENTS.GET_JOB_STATUS:
+            return { jobs: await this.scheduler.getStatus() } satisfies MessageResponseMap['GET_JOB_STATUS'];
+
+          case CONST_EVENTS.RUN_CLEANUP:
+            await this.eventCompactor.compact(this.settingsStore.get('rawEventWindowDays'));
+            return this.retentionManager.cleanup(this.getRetentionPolicy()) satisfies Promise<MessageResponseMap['RUN_CLEANUP']>;
 
           case CONST_EVENTS.CLEAR_DATA:
             await DatabaseService.clearAllData();
@@ -772,6 +1244,53 @@ export default defineBackground(() => {
             await this.tabManager.initialize();
             return { success: true };
 
+          case CONST_EVENTS.GET_BLOCK_INFO: {
+            const domain = extractDomain(message.data.url);
+            return {
+              domain,
+              todayTime: await DatabaseService.getDomainTodayTime(domain),
+              limit: await this.limitManager.getStatus(domain)
+            } satisfies MessageResponseMap['GET_BLOCK_INFO'];
+          }
+
+          case CONST_EVENTS.ALLOW_BYPASS: {
+            const { url, reason } = message.data;
+            const allowedUntil = await this.focusGuard.allow(extractDomain(url));
+            await this.recordBypass(url, reason);
+            return { allowedUntil } satisfies MessageResponseMap['ALLOW_BYPASS'];
+          }
+
+          case CONST_EVENTS.GET_REPORT:
+            return this.reportBuilder.build(message.data.period, message.data.date, this.settingsStore.get('categoryOverrides')) satisfies Promise<MessageResponseMap['GET_REPORT']>;
+
+          case CONST_EVENTS.GET_HEATMAP: {
+            const { start, end, domain } = message.data;
+            return this.reportBuilder.buildHeatmap(start, end, domain) satisfies Promise<MessageResponseMap['GET_HEATMAP']>;
+          }
+
+          case CONST_EVENTS.BATCH_EVENTS: {
+            if (this.pendingBatches >= MAX_PENDING_BATCHES) {
+              return { accepted: false, stored: 0, retryAfterMs: BATCH_RETRY_AFTER_MS } satisfies MessageResponseMap['BATCH_EVENTS'];
+            }
+
+            const events = message.data.events.flatMap(raw => {
+              try {
+                return [validateQueuedEvent(raw)];
+              } catch (error) {
+                console.warn('Dropped queued event:', error);
+                return [];
+              }
+            });
+
+            this.pendingBatches++;
+            try {
+              const stored = await this.recordInteractions(events, sender);
+              return { accepted: true, stored } satisfies MessageResponseMap['BATCH_EVENTS'];
+            } finally {
+              this.pendingBatches--;
+            }
+          }
+
           case CONST_EVENTS.PAGE_VIEW:
             if (sender.tab?.id) {
               const { url, title } = message.data;
@@ -779,6 +1298,12 @@ export default defineBackground(() => {
             }
             return null;
 
+          case CONST_EVENTS.MEDIA_STATE:
+            if (sender.tab?.id) {
+              await this.tabManager.handleMediaStateChange(sender.tab.id, message.data.playing);
+            }
+            return null;
+
           case CONST_EVENTS.VISIBILITY_CHANGE:
             if (sender.tab?.id) {
               const { visible } = message.data;
@@ -786,56 +1311,102 @@ export default defineBackground(() => {
             }
             return null
 
-          // L2
-          // case CONST_EVENTS.SCROLL_DEPTH:
-          //   if (sender.tab?.id) {
-          //     const tab = this.tabManager.getCurrentTab()
-          //     if (tab) {
-          //       console.log(`SAVING SCROLL DEPTH`)
-          //       await DatabaseService.addEvent(
-          //         tab.pageId,
-          //         this.sessionManager.getCurrentSessionId(),
-          //         message.type,
-          //         message.data
-          //       )
-
-          //     }
-          //   }
-          //   console.log(`NO!!!!!!!!!!!!!! NO SAVING SCROLL DEPTH`)
-          //   return null
-          // case CONST_EVENTS.CLICK:
-          // case CONST_EVENTS.KEYDOWN:
-          // case CONST_EVENTS.FORM_INTERACTION:
-          // case CONST_EVENTS.SPA_ROUTE_CHANGE:
-          //   if (sender.tab?.id) {
-          //     const tab = this.tabManager.getCurrentTab();
-          //     if (tab) {
-          //       await DatabaseService.addEvent(
-          //         tab.pageId,
-          //         this.sessionManager.getCurrentSessionId(),
-          //         message.type,
-          //         message.data
-          //       );
-          //     }
-          //   }
-          //   return null;
-
           default:
-            console.error(`Unknown message type: ${message.type}`);
             return null;
         }
       }
 
+      /**
+       * Stores L2 events from a content script in one write, subject to the same
+       * settings and domain rules as single messages. Returns how many were kept.
+       */
+      private async recordInteractions(events: QueuedEvent[], sender: chrome.runtime.MessageSender): Promise<number> {
+        const url = sender.url ?? sender.tab?.url;
+        if (!sender.tab?.id || !url || !this.settingsStore.get('interactionTracking')) return 0;
+        if (this.ruleEngine.evaluateUrl(url) !== 'track') return 0;
+
+        // Whichever tab sent them, focused or not; a page being left still reaches its own visit
+        const tab = this.tabManager.findVisit(sender.tab.id, url);
+        if (!tab || tab.isPrivate) return 0;
+
+        const now = Date.now();
+        const sessionId = this.sessionManager.getCurrentSessionId();
+        const rows = events
+          .filter(event => this.settingsStore.get(INTERACTION_SETTINGS[event.type]))
+          .map(event => ({
+            pageId: tab.pageId,
+            sessionId,
+            visitId: tab.visitId,
+            frameId: sender.frameId,
+            // Page clocks can run ahead of ours
+            timestamp: Math.min(event.timestamp, now),
+            type: event.type,
+            data: event.data
+          }));
+
+        debugLog(`SAVING ${rows.length} EVENTS`);
+        await DatabaseService.addEvents(rows);
+        return rows.length;
+      }
+
+      /** Logs a focus bypass so it counts in the stats; nothing is kept for domains the rules block. */
+      private async recordBypass(url: string, reason: BlockReason) {
+        if (!this.isTrackingEnabled) return;
+
+        const decision = this.ruleEngine.evaluateUrl(url);
+        if (decision === 'block') return;
+
+        const pageId = decision === 'track' ? await DatabaseService.getPageIdFromUrl(url) : null;
+        await DatabaseService.addEvent(
+          pageId ?? undefined,
+          this.sessionManager.getCurrentSessionId(),
+          CONST_EVENTS.FOCUS_BYPASS,
+          { domain: extractDomain(url), reason }
+        );
+      }
+
+      /** Sends the tab to the interstitial when focus mode stops `url`; true if it did. */
+      private async enforceFocusMode(tabId: number, url: string): Promise<boolean> {
+        const reason = await this.focusGuard.check(url);
+        if (!reason) return false;
+
+        try {
+          await chrome.tabs.update(tabId, { url: this.focusGuard.getInterstitialUrl(url, reason) });
+          return true;
+        } catch (error) {
+          // The tab may have closed in the meantime
+          console.warn(`Failed to redirect tab ${tabId} to the focus page:`, error);
+          return false;
+        }
+      }
+
+      /** Catches sites whose limit ran out or whose bypass expired while they were open. */
+      private async enforceFocusOnActiveTabs() {
+        const tabs = await chrome.tabs.query({ active: true });
+        for (const tab of tabs) {
+          if (tab.id && tab.url) await this.enforceFocusMode(tab.id, tab.url);
+        }
+      }
+
       private async handleTabActivated(activeInfo: { tabId: number }) {
         if (!this.isTrackingEnabled) return;
         await this.tabManager.handleTabFocusGain(activeInfo.tabId);
       }
 
+      // Focus mode works whether or not tracking is on
+      private async handleNavigation(details: { tabId: number, frameId: number, url: string }) {
+        if (details.frameId !== 0 || details.tabId < 0) return;
+        await this.enforceFocusMode(details.tabId, details.url);
+      }
+
       private async handleTabUpdated(tabId: number, changeInfo: any, tab: any) {
         if (!this.isTrackingEnabled) return;
-        if (changeInfo.status === 'complete' && tab.url) {
+        if (changeInfo.status === 'complete' && tab.url && !this.focusGuard.isInterstitial(tab.url)) {
           await this.tabManager.handlePageView(tabId, tab.url, tab.title || '');
         }
+        if (changeInfo.audible !== undefined) {
+          await this.tabManager.handleAudibleChange(tabId, changeInfo.audible);
+        }
       }
 
       private async handleTabRemoved(tabId: number) {
@@ -849,5 +1420,7 @@ export default defineBackground(() => {
     }
 
     new BackgroundService();
-  });
+  } catch (error) {
+    console.error('Failed to start background service:', error);
+  }
 })
\ No newline at end of file
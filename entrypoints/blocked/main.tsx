@@ -0,0 +1,87 @@
+import { render } from 'preact';
+import { useEffect, useState } from 'preact/hooks';
+import { Hourglass, ShieldAlert } from 'lucide-react';
+import '../popup/style.css';
+import './style.css';
+import { sendMessage } from '../../shared/utils/messaging';
+import { FOCUS_BYPASS_MINUTES } from '../../shared/constants/constants';
+import type { BlockInfo, BlockReason } from '../../shared/types/interfaces';
+import { formatFullTime } from '../../shared/utils/time';
+
+const params = new URLSearchParams(location.search);
+const targetUrl = params.get('url') ?? '';
+const reason: BlockReason = params.get('reason') === 'limit' ? 'limit' : 'focus';
+
+const BlockedApp = () => {
+  const [info, setInfo] = useState<BlockInfo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    sendMessage('GET_BLOCK_INFO', { url: targetUrl })
+      .then(setInfo)
+      .catch((err) => setError(err.message));
+  }, []);
+
+  const handleAllow = async () => {
+    try {
+      await sendMessage('ALLOW_BYPASS', { url: targetUrl, reason });
+      location.replace(targetUrl);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  // Going back could land on the interrupted site again, and new-tab URLs differ per browser
+  const handleLeave = async () => {
+    try {
+      const tab = await browser.tabs.getCurrent();
+      if (tab?.id !== undefined) await browser.tabs.remove(tab.id);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const domain = info?.domain ?? targetUrl;
+
+  return (
+    <div class='blocked-page'>
+      {reason === 'limit' ? <Hourglass size={32} /> : <ShieldAlert size={32} />}
+      <h1>{domain}</h1>
+      <p class='blocked-reason'>
+        {reason === 'limit'
+          ? 'You have used up your daily limit on this site.'
+          : 'This site is on your focus list.'}
+      </p>
+
+      <div class='blocked-time'>
+        <strong>{info ? formatFullTime(info.todayTime) : '—'}</strong>
+        <span>
+          spent here today
+          {info?.limit && ` of ${formatFullTime(info.limit.limitMs)} allowed`}
+        </span>
+      </div>
+
+      <div class='blocked-actions'>
+        <button class='btn btn-secondary' onClick={handleAllow} disabled={!targetUrl}>
+          Allow {FOCUS_BYPASS_MINUTES} more minutes
+        </button>
+        <button class='btn btn-primary' onClick={handleLeave}>
+          Leave
+        </button>
+      </div>
+
+      {error && <p class='blocked-error'>{error}</p>}
+    </div>
+  );
+};
+
+const initApp = () => {
+  const appElement = document.getElementById('app');
+  if (appElement) render(<BlockedApp />, appElement);
+};
+
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', initApp);
+} else {
+  initApp();
+}
@@ -1,4 +1,8 @@
 import { CONST_EVENTS } from "../shared/constants/constants";
+import { DEFAULT_SETTINGS } from "../shared/constants/settings";
+import type { ExtensionSettings } from "../shared/types/settings";
+import { sendMessage } from "../shared/utils/messaging";
+import { EventBatcher } from "../lib/content/event-batcher";
 
 export default defineContentScript({
   matches: ['https://*/*', 'http://*/*'],
@@ -19,6 +23,8 @@ export default defineContentScript({
       private lastUrl = window.location.href;
       private visibilityObserver?: IntersectionObserver;
       private isInitialized = false;
+      private isMediaPlaying = false;
+      private events = new EventBatcher();
 
       constructor() {
         this.init()
@@ -44,13 +50,36 @@ export default defineContentScript({
       private setupTracking() {
         this.sendPageView()
         this.setupEventListeners()
-        this.setupFormTracking()
+        this.events.start()
         this.setupIntersectionObserver()
-        this.setupSPATracking()
+        this.setupMediaTracking()
+
+        this.loadSettings().then(settings => {
+          if (settings.interactionTracking) {
+            if (settings.trackForms) {
+              this.setupFormTracking()
+            }
+            this.setupInteractionTracking(settings)
+          }
+
+          if (settings.spaDetection) {
+            this.setupSPATracking()
+          }
+        })
+      }
+
+      private async loadSettings(): Promise<ExtensionSettings> {
+        try {
+          const { settings } = await sendMessage(CONST_EVENTS.GET_SETTINGS)
+          return { ...DEFAULT_SETTINGS, ...settings }
+        } catch (error) {
+          console.warn('Failed to load settings, using defaults:', error)
+          return DEFAULT_SETTINGS
+        }
       }
 
       private sendPageView() {
-        this.sendMessage(CONST_EVENTS.PAGE_VIEW, {
+        sendMessage(CONST_EVENTS.PAGE_VIEW, {
           url: window.location.href,
           title: document.title,
           referrer: document.referrer || undefined
@@ -59,21 +88,6 @@ export default defineContentScript({
         })
       }
 
-      private async sendMessage<T = any>(type: string, data?: any): Promise<T> {
-        try {
-          const message = {
-            type,
-            data,
-            timestamp: Date.now()
-          };
-
-          const response = await chrome.runtime.sendMessage(message);
-          return response;
-        } catch (error) {
-          throw new Error(`Failed to send message: ${error}`);
-        }
-      }
-
       private setupEventListeners() {
         document.addEventListener('visibilitychange', () => {
           const visible = document.visibilityState === 'visible';
@@ -112,7 +126,7 @@ export default defineContentScript({
 
       private setupFormTracking() {
         const emit = (type: string, tag: string) =>
-          this.sendMessage(CONST_EVENTS.FORM_INTERACTION, { interactionType: type, tag });
+          this.events.push(CONST_EVENTS.FORM_INTERACTION, { interactionType: type, tag });
 
         document.querySelectorAll('input, textarea, select').forEach(el => {
           el.addEventListener('focus', () => emit('focus', el.tagName), true);
@@ -121,14 +135,43 @@ export default defineContentScript({
 
         document.addEventListener('submit', (e: Event) => {
           const tag = (e.target as HTMLElement).tagName;
-          this.sendMessage(CONST_EVENTS.FORM_INTERACTION, { interactionType: 'submit', tag })
-            .catch(() => {/* silent */ });
+          emit('submit', tag);
         }, true);
       }
 
 
+      private setupMediaTracking() {
+        const checkMediaState = () => {
+          const playing = Array.from(document.querySelectorAll('video')).some(video =>
+            !video.paused && !video.ended && video.readyState > 2
+          )
+
+          if (playing !== this.isMediaPlaying) {
+            this.isMediaPlaying = playing
+            sendMessage(CONST_EVENTS.MEDIA_STATE, { playing }).catch(error => {
+              console.warn('Failed to send media state:', error)
+            })
+          }
+        }
+
+        // media events do not bubble, so listen in the capture phase
+        const mediaEvents = ['play', 'playing', 'pause', 'ended', 'emptied'] as const;
+        mediaEvents.forEach(eventName => {
+          document.addEventListener(eventName, checkMediaState, { capture: true, passive: true })
+        })
+
+        window.addEventListener('pagehide', () => {
+          if (this.isMediaPlaying) {
+            this.isMediaPlaying = false
+            sendMessage(CONST_EVENTS.MEDIA_STATE, { playing: false }).catch(() => {/* silent */ })
+          }
+        })
+
+        checkMediaState()
+      }
+
       private sendVisibilityChange(visible: boolean, reason: string) {
-        this.sendMessage(CONST_EVENTS.VISIBILITY_CHANGE, {
+        sendMessage(CONST_EVENTS.VISIBILITY_CHANGE, {
           visible,
           url: window.location.href,
           reason
@@ -179,7 +222,7 @@ export default defineContentScript({
 
             console.log(`SPA navigation detected: ${from} -> ${newUrl}`)
 
-            this.sendMessage(CONST_EVENTS.SPA_ROUTE_CHANGE, {
+            this.events.push(CONST_EVENTS.SPA_ROUTE_CHANGE, {
               interactionType: 'spa_navigation',
               url: currentUrl,
               details: {
@@ -188,7 +231,7 @@ export default defineContentScript({
                 timestamp: Date.now(),
                 trigger: 'url_change'
               }
-            }).catch(console.warn);
+            });
 
             setTimeout(() => {
               this.sendPageView()
@@ -216,8 +259,10 @@ export default defineContentScript({
         spaEvents.forEach((eventName: string) => {
           window.addEventListener(eventName, checkUrlChange, { passive: true })
         })
+      }
 
-        // L2
+      // L2
+      private setupInteractionTracking(settings: ExtensionSettings) {
         function debounce(func, delay) {
           let timeout;
 
@@ -240,35 +285,37 @@ export default defineContentScript({
           };
         }
 
-        document.addEventListener('scroll', debounce(() => {
-          const doc = document.documentElement
-          const percent = Math.round(
-            (doc.scrollTop / (doc.scrollHeight - doc.clientHeight)) * 100
-          )
-
-          this.sendMessage('scroll_depth', {
-            value: percent
-          }).catch(error => {
-            console.warn('Failed to send scroll_depth', error)
-          })
-        }, 300))
-
-        document.addEventListener('click', throttle((event: any) => {
-          this.sendMessage('click', {
-            tag: event.target.tagName,
-            id: event.target.id,
-            classes: event.target.className,
-            x: event.clientX,
-            y: event.clientY
-          })
-        }, 300))
+        if (settings.trackScroll) {
+          document.addEventListener('scroll', debounce(() => {
+            const doc = document.documentElement
+            const percent = Math.round(
+              (doc.scrollTop / (doc.scrollHeight - doc.clientHeight)) * 100
+            )
+
+            this.events.push(CONST_EVENTS.SCROLL_DEPTH, {
+              value: percent
+            })
+          }, 300))
+        }
 
+        if (settings.trackClicks) {
+          document.addEventListener('click', throttle((event: any) => {
+            this.events.push(CONST_EVENTS.CLICK, {
+              tag: event.target.tagName,
+              id: event.target.id,
+              // className is an SVGAnimatedString on SVG elements
+              classes: event.target.getAttribute?.('class') || '',
+              x: event.clientX,
+              y: event.clientY
+            })
+          }, 300))
+        }
 
-        document.addEventListener('keydown', () => {
-          this.sendMessage('keydown').catch(error => {
-            console.warn('Failed to send keydown:', error)
+        if (settings.trackKeystrokes) {
+          document.addEventListener('keydown', () => {
+            this.events.push(CONST_EVENTS.KEYDOWN)
           })
-        })
+        }
       }
 
       public cleanup() {
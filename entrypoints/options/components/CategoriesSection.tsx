@@ -0,0 +1,119 @@
+import { useState } from 'preact/hooks';
+import { Plus, Tags, Trash2 } from 'lucide-react';
+import type { UpdateSetting } from '../../popup/utils/useSettings';
+import type { Category, ExtensionSettings } from '../../../shared/types/settings';
+import {
+  CATEGORIES,
+  CATEGORY_LABELS,
+  resolveCategory,
+} from '../../../shared/constants/categories';
+import {
+  isValidDomainPattern,
+  normalizeDomain,
+} from '../../../shared/utils/url-utils';
+
+interface CategoriesSectionProps {
+  settings: ExtensionSettings;
+  onUpdate: UpdateSetting;
+}
+
+const CategoriesSection = ({ settings, onUpdate }: CategoriesSectionProps) => {
+  const [domain, setDomain] = useState('');
+  const [category, setCategory] = useState<Category>('work');
+  const [error, setError] = useState<string | null>(null);
+
+  const { categoryOverrides } = settings;
+
+  const handleAdd = (e: Event) => {
+    e.preventDefault();
+
+    const pattern = normalizeDomain(domain);
+    if (!isValidDomainPattern(pattern)) {
+      setError(`Invalid domain pattern: ${domain}`);
+      return;
+    }
+
+    setError(null);
+    setDomain('');
+    onUpdate('categoryOverrides', { ...categoryOverrides, [pattern]: category });
+  };
+
+  const handleRemove = (pattern: string) => {
+    const { [pattern]: _removed, ...rest } = categoryOverrides;
+    onUpdate('categoryOverrides', rest);
+  };
+
+  const overrides = Object.entries(categoryOverrides).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  // Shown while typing so it is clear what the new entry would replace
+  const pattern = normalizeDomain(domain);
+  const current = isValidDomainPattern(pattern)
+    ? resolveCategory(pattern.replace(/^\*\./, ''), categoryOverrides)
+    : null;
+
+  return (
+    <section class='settings-section'>
+      <h3>
+        <Tags size={18} />
+        Categories
+      </h3>
+
+      <p class='setting-description'>
+        Common sites come with a category. Entries here take precedence, and
+        sites matching neither are uncategorized.
+      </p>
+
+      <form class='rule-form' onSubmit={handleAdd}>
+        <input
+          class='rule-input'
+          type='text'
+          placeholder='*.example.com'
+          value={domain}
+          onInput={(e) => setDomain((e.target as HTMLInputElement).value)}
+        />
+        <select
+          class='rule-select'
+          value={category}
+          onChange={(e) =>
+            setCategory((e.target as HTMLSelectElement).value as Category)
+          }
+        >
+          {CATEGORIES.map((name) => (
+            <option key={name} value={name}>
+              {CATEGORY_LABELS[name]}
+            </option>
+          ))}
+        </select>
+        <button class='btn btn-primary' type='submit'>
+          <Plus size={14} />
+        </button>
+      </form>
+
+      {error && <p class='rule-error'>{error}</p>}
+      {!error && current && (
+        <p class='setting-description'>
+          Currently {CATEGORY_LABELS[current]}
+        </p>
+      )}
+
+      {overrides.map(([pattern, value]) => (
+        <div key={pattern} class='setting-item'>
+          <div class='setting-info'>
+            <label class='setting-label'>{pattern}</label>
+            <p class='setting-description'>{CATEGORY_LABELS[value]}</p>
+          </div>
+          <button
+            class='rule-remove-btn'
+            onClick={() => handleRemove(pattern)}
+            title='Remove override'
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+export default CategoriesSection;
@@ -0,0 +1,331 @@
+import { useState, useEffect, useCallback } from 'preact/hooks';
+import { Database, Eraser, Trash2, Upload } from 'lucide-react';
+import SettingToggle from '../../popup/components/SettingToggle';
+import ExportControls from '../../popup/components/ExportControls';
+import type { UpdateSetting } from '../../popup/utils/useSettings';
+import {
+  exportData,
+  importBackup,
+  type ExportOptions,
+} from '../../popup/utils/export';
+import { sendMessage } from '../../../shared/utils/messaging';
+import type {
+  CleanupReport,
+  ImportMode,
+  ImportSummary,
+  StorageUsage,
+} from '../../../shared/types/interfaces';
+import type { ExtensionSettings } from '../../../shared/types/settings';
+
+const RETENTION_OPTIONS = [7, 30, 90, 180, 365, 730];
+
+type RetentionKey =
+  | 'rawEventWindowDays'
+  | 'interactionRetentionDays'
+  | 'sessionRetentionDays'
+  | 'retentionDays';
+
+const RETENTION_CLASSES: { key: RetentionKey; label: string; description: string }[] = [
+  {
+    key: 'rawEventWindowDays',
+    label: 'Raw interaction events',
+    description: 'Individual clicks, keystrokes and scrolls, once summarized',
+  },
+  {
+    key: 'interactionRetentionDays',
+    label: 'Interaction summaries',
+    description: 'Daily click, keystroke, scroll depth and form counts per page',
+  },
+  {
+    key: 'sessionRetentionDays',
+    label: 'Sessions',
+    description: 'Browsing sessions and page navigation events',
+  },
+  {
+    key: 'retentionDays',
+    label: 'Page history',
+    description: 'Per-page totals and daily summaries',
+  },
+];
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB'];
+  let value = bytes;
+  let unit = 0;
+
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+}
+
+function describeImport(summary: ImportSummary): string {
+  const { pages, events, sessions, dailyActivity, removed } = summary;
+  const parts = [
+    `${pages.added} new and ${pages.merged} merged pages`,
+    `${events.added} events`,
+    `${sessions.added} sessions`,
+    `${dailyActivity.added + dailyActivity.merged} daily records`,
+  ];
+  const skipped = events.skipped + sessions.skipped + dailyActivity.skipped;
+
+  let text = `${summary.dryRun ? 'Will import' : 'Imported'} ${parts.join(', ')}`;
+  if (skipped > 0) text += ` (${skipped} duplicate or orphaned rows skipped)`;
+  if (summary.mode === 'replace') {
+    text += `. ${summary.dryRun ? 'Replaces' : 'Replaced'} ${removed.pages} pages and ${removed.events} events`;
+  }
+
+  return `${text}.`;
+}
+
+function describeCleanup(report: CleanupReport): string {
+  const events = report.interactionEvents + report.events;
+  const when = new Date(report.ranAt).toLocaleString();
+
+  return `Last cleanup ${when}: ${events} events, ${report.sessions} sessions, ${report.pages} pages and ${report.dailyActivity} daily records removed`;
+}
+
+interface DataSectionProps {
+  settings: ExtensionSettings;
+  onUpdate: UpdateSetting;
+}
+
+const DataSection = ({ settings, onUpdate }: DataSectionProps) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [status, setStatus] = useState<string | null>(null);
+  const [backup, setBackup] = useState<Record<string, unknown> | null>(null);
+  const [importMode, setImportMode] = useState<ImportMode>('merge');
+  const [preview, setPreview] = useState<ImportSummary | null>(null);
+
+  const loadUsage = useCallback(async () => {
+    try {
+      setUsage(await sendMessage('GET_STORAGE_USAGE'));
+    } catch (error) {
+      console.error('Failed to load storage usage:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  const handleExport = async (options: ExportOptions) => {
+    try {
+      await exportData(options);
+      setStatus(null);
+    } catch (error) {
+      setStatus(`Export failed: ${(error as Error).message}`);
+    }
+  };
+
+  const previewImport = async (
+    data: Record<string, unknown>,
+    mode: ImportMode
+  ) => {
+    setPreview(null);
+    try {
+      setPreview(await importBackup(data, mode, true));
+      setStatus(null);
+    } catch (error) {
+      setBackup(null);
+      setStatus(`Import failed: ${(error as Error).message}`);
+    }
+  };
+
+  const handleFileSelected = async (e: Event) => {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    try {
+      const data = JSON.parse(await file.text());
+      setBackup(data);
+      await previewImport(data, importMode);
+    } catch (error) {
+      setStatus(`Could not read ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  const handleModeChange = async (mode: ImportMode) => {
+    setImportMode(mode);
+    if (backup) await previewImport(backup, mode);
+  };
+
+  const handleConfirmImport = async () => {
+    if (!backup) return;
+
+    try {
+      const summary = await importBackup(backup, importMode);
+      setStatus(describeImport(summary));
+    } catch (error) {
+      setStatus(`Import failed: ${(error as Error).message}`);
+    }
+
+    setBackup(null);
+    setPreview(null);
+    await loadUsage();
+  };
+
+  const cancelImport = () => {
+    setBackup(null);
+    setPreview(null);
+  };
+
+  const handleCleanup = async () => {
+    try {
+      await sendMessage('RUN_CLEANUP');
+      setStatus(null);
+    } catch (error) {
+      setStatus(`Cleanup failed: ${(error as Error).message}`);
+    }
+    await loadUsage();
+  };
+
+  const handleClear = async () => {
+    if (!confirm('Clear all data? This cannot be undone.')) return;
+
+    try {
+      await sendMessage('CLEAR_DATA');
+      setStatus('All data cleared');
+    } catch (error) {
+      setStatus(`Clear failed: ${(error as Error).message}`);
+    }
+    await loadUsage();
+  };
+
+  return (
+    <section class='settings-section'>
+      <h3>
+        <Database size={18} />
+        Data
+      </h3>
+
+      {RETENTION_CLASSES.map(({ key, label, description }) => (
+        <div class='setting-item' key={key}>
+          <div class='setting-info'>
+            <label class='setting-label'>{label}</label>
+            <p class='setting-description'>{description}</p>
+          </div>
+          <select
+            class='rule-select'
+            value={settings[key]}
+            onChange={(e) =>
+              onUpdate(key, Number((e.target as HTMLSelectElement).value))
+            }
+          >
+            {!RETENTION_OPTIONS.includes(settings[key]) && (
+              <option value={settings[key]}>{settings[key]} days</option>
+            )}
+            {RETENTION_OPTIONS.map((days) => (
+              <option key={days} value={days}>
+                {days} days
+              </option>
+            ))}
+          </select>
+        </div>
+      ))}
+
+      <SettingToggle
+        label='Auto-cleanup'
+        description='Remove data past the ages above once a day'
+        checked={settings.autoCleanup}
+        onChange={(checked) => onUpdate('autoCleanup', checked)}
+      />
+
+      <div class='setting-item'>
+        <div class='setting-info'>
+          <label class='setting-label'>Cleanup</label>
+          <p class='setting-description'>
+            {usage?.lastCleanup
+              ? describeCleanup(usage.lastCleanup)
+              : 'No cleanup has run yet'}
+          </p>
+        </div>
+        <button class='btn btn-secondary' onClick={handleCleanup}>
+          <Eraser size={16} />
+          Clean Up Now
+        </button>
+      </div>
+
+      {usage && (
+        <div class='setting-item'>
+          <div class='setting-info'>
+            <label class='setting-label'>Storage Usage</label>
+            <p class='setting-description'>
+              {usage.pages} pages, {usage.events} events, {usage.sessions}{' '}
+              sessions, {usage.dailyActivity} daily records
+            </p>
+          </div>
+          {usage.usageBytes !== null && (
+            <div class='setting-value'>
+              {formatBytes(usage.usageBytes)}
+              {usage.quotaBytes !== null &&
+                ` of ${formatBytes(usage.quotaBytes)}`}
+            </div>
+          )}
+        </div>
+      )}
+
+      <ExportControls onExport={handleExport} />
+
+      <div class='data-actions'>
+        <label class='btn btn-secondary'>
+          <Upload size={16} />
+          Import Data
+          <input
+            type='file'
+            accept='application/json,.json'
+            hidden
+            onChange={handleFileSelected}
+          />
+        </label>
+
+        <select
+          class='rule-select'
+          value={importMode}
+          onChange={(e) =>
+            handleModeChange(
+              (e.target as HTMLSelectElement).value as ImportMode
+            )
+          }
+        >
+          <option value='merge'>Merge with existing</option>
+          <option value='replace'>Replace everything</option>
+        </select>
+
+        <button class='btn btn-danger' onClick={handleClear}>
+          <Trash2 size={16} />
+          Clear All Data
+        </button>
+      </div>
+
+      {preview && (
+        <div class='data-info'>
+          <p class='info-text'>
+            Backup from {new Date(preview.exportDate).toLocaleString()}{' '}
+            (version {preview.version}). {describeImport(preview)}
+          </p>
+          <div class='data-actions'>
+            <button class='btn btn-primary' onClick={handleConfirmImport}>
+              Confirm Import
+            </button>
+            <button class='btn btn-secondary' onClick={cancelImport}>
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+
+      {status && (
+        <div class='data-info'>
+          <p class='info-text'>{status}</p>
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DataSection;
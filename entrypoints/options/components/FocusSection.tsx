@@ -0,0 +1,138 @@
+import { useState } from 'preact/hooks';
+import { Plus, ShieldAlert, Trash2 } from 'lucide-react';
+import SettingToggle from '../../popup/components/SettingToggle';
+import type { UpdateSetting } from '../../popup/utils/useSettings';
+import type { ExtensionSettings } from '../../../shared/types/settings';
+import {
+  isValidDomainPattern,
+  normalizeDomain,
+} from '../../../shared/utils/url-utils';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface FocusSectionProps {
+  settings: ExtensionSettings;
+  onUpdate: UpdateSetting;
+}
+
+const HourOptions = () => (
+  <>
+    {HOURS.map((hour) => (
+      <option key={hour} value={hour}>
+        {String(hour).padStart(2, '0')}:00
+      </option>
+    ))}
+  </>
+);
+
+const FocusSection = ({ settings, onUpdate }: FocusSectionProps) => {
+  const [domain, setDomain] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { focusModeEnabled, focusDomains, focusStartHour, focusEndHour } =
+    settings;
+
+  const handleAdd = (e: Event) => {
+    e.preventDefault();
+
+    const pattern = normalizeDomain(domain);
+    if (!isValidDomainPattern(pattern)) {
+      setError(`Invalid domain pattern: ${domain}`);
+      return;
+    }
+
+    setError(null);
+    setDomain('');
+    if (!focusDomains.includes(pattern)) {
+      onUpdate('focusDomains', [...focusDomains, pattern].sort());
+    }
+  };
+
+  return (
+    <section class='settings-section'>
+      <h3>
+        <ShieldAlert size={18} />
+        Focus Mode
+      </h3>
+
+      <SettingToggle
+        label='Enable Focus Mode'
+        description='Interrupt listed sites during focus hours, and any site once its daily limit is used up'
+        checked={focusModeEnabled}
+        onChange={(checked) => onUpdate('focusModeEnabled', checked)}
+      />
+
+      <div class='setting-item'>
+        <div class='setting-info'>
+          <label class='setting-label'>Focus Hours</label>
+          <p class='setting-description'>
+            The same start and end means all day
+          </p>
+        </div>
+        <select
+          class='rule-select'
+          value={focusStartHour}
+          disabled={!focusModeEnabled}
+          onChange={(e) =>
+            onUpdate(
+              'focusStartHour',
+              Number((e.target as HTMLSelectElement).value)
+            )
+          }
+        >
+          <HourOptions />
+        </select>
+        <select
+          class='rule-select'
+          value={focusEndHour}
+          disabled={!focusModeEnabled}
+          onChange={(e) =>
+            onUpdate(
+              'focusEndHour',
+              Number((e.target as HTMLSelectElement).value)
+            )
+          }
+        >
+          <HourOptions />
+        </select>
+      </div>
+
+      <form class='rule-form' onSubmit={handleAdd}>
+        <input
+          class='rule-input'
+          type='text'
+          placeholder='*.youtube.com'
+          value={domain}
+          onInput={(e) => setDomain((e.target as HTMLInputElement).value)}
+        />
+        <button class='btn btn-primary' type='submit'>
+          <Plus size={14} />
+        </button>
+      </form>
+
+      {error && <p class='rule-error'>{error}</p>}
+
+      {focusDomains.map((pattern) => (
+        <div key={pattern} class='setting-item'>
+          <div class='setting-info'>
+            <label class='setting-label'>{pattern}</label>
+          </div>
+          <button
+            class='rule-remove-btn'
+            onClick={() =>
+              onUpdate(
+                'focusDomains',
+                focusDomains.filter((value) => value !== pattern)
+              )
+            }
+            title='Remove from focus list'
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+export default FocusSection;
@@ -0,0 +1,75 @@
+import { Globe } from 'lucide-react';
+import SettingToggle from '../../popup/components/SettingToggle';
+import type { UpdateSetting } from '../../popup/utils/useSettings';
+import type { BadgeMode, ExtensionSettings } from '../../../shared/types/settings';
+
+const BADGE_MODE_LABELS: Record<BadgeMode, string> = {
+  page: 'Total time on the current page',
+  session: 'Time since switching to the tab',
+  today: 'Total active time today',
+};
+
+interface GeneralSectionProps {
+  settings: ExtensionSettings;
+  onUpdate: UpdateSetting;
+}
+
+const GeneralSection = ({ settings, onUpdate }: GeneralSectionProps) => (
+  <section class='settings-section'>
+    <h3>
+      <Globe size={18} />
+      General
+    </h3>
+
+    <SettingToggle
+      label='Activity Tracking'
+      description={
+        settings.trackingEnabled
+          ? 'Currently tracking your browsing activity'
+          : 'Tracking is paused - no new data is being collected'
+      }
+      checked={settings.trackingEnabled}
+      onChange={(checked) => onUpdate('trackingEnabled', checked)}
+    />
+
+    <SettingToggle
+      label='Multi-Window Tracking'
+      description='Also count time on the active tab of other visible windows, reported separately as visible time'
+      checked={settings.multiWindowTracking}
+      onChange={(checked) => onUpdate('multiWindowTracking', checked)}
+    />
+
+    <SettingToggle
+      label='Badge Display'
+      description='Show a timer on the extension icon'
+      checked={settings.badgeEnabled}
+      onChange={(checked) => onUpdate('badgeEnabled', checked)}
+    />
+
+    <div class='setting-item'>
+      <div class='setting-info'>
+        <label class='setting-label'>Badge Shows</label>
+        <p class='setting-description'>
+          {BADGE_MODE_LABELS[settings.badgeMode]}
+        </p>
+      </div>
+      <select
+        class='rule-select'
+        value={settings.badgeMode}
+        disabled={!settings.badgeEnabled}
+        onChange={(e) =>
+          onUpdate(
+            'badgeMode',
+            (e.target as HTMLSelectElement).value as BadgeMode
+          )
+        }
+      >
+        <option value='page'>Page total</option>
+        <option value='session'>Current visit</option>
+        <option value='today'>Today</option>
+      </select>
+    </div>
+  </section>
+);
+
+export default GeneralSection;
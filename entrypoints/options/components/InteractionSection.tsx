@@ -0,0 +1,77 @@
+import { MousePointerClick } from 'lucide-react';
+import SettingToggle from '../../popup/components/SettingToggle';
+import type { UpdateSetting } from '../../popup/utils/useSettings';
+import type { ExtensionSettings } from '../../../shared/types/settings';
+
+interface InteractionSectionProps {
+  settings: ExtensionSettings;
+  onUpdate: UpdateSetting;
+}
+
+const InteractionSection = ({
+  settings,
+  onUpdate,
+}: InteractionSectionProps) => {
+  const disabled = !settings.interactionTracking;
+
+  return (
+    <section class='settings-section'>
+      <h3>
+        <MousePointerClick size={18} />
+        Interaction Tracking
+      </h3>
+
+      <p class='setting-description'>
+        Changes apply to pages opened or reloaded afterwards.
+      </p>
+
+      <SettingToggle
+        label='Interaction Events'
+        description='Record how you interact with pages, not just time spent'
+        checked={settings.interactionTracking}
+        onChange={(checked) => onUpdate('interactionTracking', checked)}
+      />
+
+      <SettingToggle
+        label='Scroll Depth'
+        description='How far down each page you scroll'
+        checked={settings.trackScroll}
+        disabled={disabled}
+        onChange={(checked) => onUpdate('trackScroll', checked)}
+      />
+
+      <SettingToggle
+        label='Clicks'
+        description='Clicked element and position, never its text'
+        checked={settings.trackClicks}
+        disabled={disabled}
+        onChange={(checked) => onUpdate('trackClicks', checked)}
+      />
+
+      <SettingToggle
+        label='Keystrokes'
+        description='Number of key presses, never which keys'
+        checked={settings.trackKeystrokes}
+        disabled={disabled}
+        onChange={(checked) => onUpdate('trackKeystrokes', checked)}
+      />
+
+      <SettingToggle
+        label='Forms'
+        description='Focus, blur and submit events, never field values'
+        checked={settings.trackForms}
+        disabled={disabled}
+        onChange={(checked) => onUpdate('trackForms', checked)}
+      />
+
+      <SettingToggle
+        label='SPA Detection'
+        description='Track single-page application navigation'
+        checked={settings.spaDetection}
+        onChange={(checked) => onUpdate('spaDetection', checked)}
+      />
+    </section>
+  );
+};
+
+export default InteractionSection;
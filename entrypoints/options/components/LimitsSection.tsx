@@ -0,0 +1,235 @@
+import { useState } from 'preact/hooks';
+import { Hourglass, Plus, Trash2 } from 'lucide-react';
+import SettingToggle from '../../popup/components/SettingToggle';
+import type { UpdateSetting } from '../../popup/utils/useSettings';
+import { formatFullTime } from '../../../shared/utils/time';
+import type { Category, ExtensionSettings } from '../../../shared/types/settings';
+import {
+  CATEGORIES,
+  CATEGORY_LABELS,
+} from '../../../shared/constants/categories';
+import {
+  isValidDomainPattern,
+  normalizeDomain,
+} from '../../../shared/utils/url-utils';
+
+const LIMIT_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240];
+const THRESHOLD_OPTIONS = [50, 80, 90, 100];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface LimitsSectionProps {
+  settings: ExtensionSettings;
+  onUpdate: UpdateSetting;
+}
+
+const LimitOptions = () => (
+  <>
+    {LIMIT_OPTIONS.map((minutes) => (
+      <option key={minutes} value={minutes}>
+        {formatFullTime(minutes * 60 * 1000)}
+      </option>
+    ))}
+  </>
+);
+
+const LimitsSection = ({ settings, onUpdate }: LimitsSectionProps) => {
+  const [domain, setDomain] = useState('');
+  const [minutes, setMinutes] = useState(30);
+  const [error, setError] = useState<string | null>(null);
+  const [category, setCategory] = useState<Category>('social');
+  const [categoryMinutes, setCategoryMinutes] = useState(60);
+
+  const { dailyLimits, categoryLimits, limitAlertThresholds, limitResetHour } =
+    settings;
+
+  const handleAdd = (e: Event) => {
+    e.preventDefault();
+
+    const pattern = normalizeDomain(domain);
+    if (!isValidDomainPattern(pattern)) {
+      setError(`Invalid domain pattern: ${domain}`);
+      return;
+    }
+
+    setError(null);
+    setDomain('');
+    onUpdate('dailyLimits', { ...dailyLimits, [pattern]: minutes });
+  };
+
+  const handleRemove = (pattern: string) => {
+    const { [pattern]: _removed, ...rest } = dailyLimits;
+    onUpdate('dailyLimits', rest);
+  };
+
+  const handleAddCategory = (e: Event) => {
+    e.preventDefault();
+    onUpdate('categoryLimits', {
+      ...categoryLimits,
+      [category]: categoryMinutes,
+    });
+  };
+
+  const handleRemoveCategory = (name: Category) => {
+    const { [name]: _removed, ...rest } = categoryLimits;
+    onUpdate('categoryLimits', rest);
+  };
+
+  const toggleThreshold = (threshold: number, enabled: boolean) => {
+    const others = limitAlertThresholds.filter((value) => value !== threshold);
+    onUpdate(
+      'limitAlertThresholds',
+      (enabled ? [...others, threshold] : others).sort((a, b) => a - b)
+    );
+  };
+
+  const limits = Object.entries(dailyLimits).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+
+  return (
+    <section class='settings-section'>
+      <h3>
+        <Hourglass size={18} />
+        Daily Limits
+      </h3>
+
+      <p class='setting-description'>
+        The badge turns orange as a site nears its limit and red once it is
+        used up.
+      </p>
+
+      <form class='rule-form' onSubmit={handleAdd}>
+        <input
+          class='rule-input'
+          type='text'
+          placeholder='*.reddit.com'
+          value={domain}
+          onInput={(e) => setDomain((e.target as HTMLInputElement).value)}
+        />
+        <select
+          class='rule-select'
+          value={minutes}
+          onChange={(e) =>
+            setMinutes(Number((e.target as HTMLSelectElement).value))
+          }
+        >
+          <LimitOptions />
+        </select>
+        <button class='btn btn-primary' type='submit'>
+          <Plus size={14} />
+        </button>
+      </form>
+
+      {error && <p class='rule-error'>{error}</p>}
+
+      {limits.map(([pattern, value]) => (
+        <div key={pattern} class='setting-item'>
+          <div class='setting-info'>
+            <label class='setting-label'>{pattern}</label>
+            <p class='setting-description'>
+              {formatFullTime(value * 60 * 1000)} a day
+            </p>
+          </div>
+          <button
+            class='rule-remove-btn'
+            onClick={() => handleRemove(pattern)}
+            title='Remove limit'
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+
+      <p class='setting-description'>
+        A category limit is shared by every site in the category.
+      </p>
+
+      <form class='rule-form' onSubmit={handleAddCategory}>
+        <select
+          class='rule-select'
+          value={category}
+          onChange={(e) =>
+            setCategory((e.target as HTMLSelectElement).value as Category)
+          }
+        >
+          {CATEGORIES.map((name) => (
+            <option key={name} value={name}>
+              {CATEGORY_LABELS[name]}
+            </option>
+          ))}
+        </select>
+        <select
+          class='rule-select'
+          value={categoryMinutes}
+          onChange={(e) =>
+            setCategoryMinutes(Number((e.target as HTMLSelectElement).value))
+          }
+        >
+          <LimitOptions />
+        </select>
+        <button class='btn btn-primary' type='submit'>
+          <Plus size={14} />
+        </button>
+      </form>
+
+      {CATEGORIES.filter((name) => categoryLimits[name]).map((name) => (
+        <div key={name} class='setting-item'>
+          <div class='setting-info'>
+            <label class='setting-label'>{CATEGORY_LABELS[name]} sites</label>
+            <p class='setting-description'>
+              {formatFullTime(categoryLimits[name]! * 60 * 1000)} a day
+            </p>
+          </div>
+          <button
+            class='rule-remove-btn'
+            onClick={() => handleRemoveCategory(name)}
+            title='Remove limit'
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+
+      {THRESHOLD_OPTIONS.map((threshold) => (
+        <SettingToggle
+          key={threshold}
+          label={`Notify at ${threshold}%`}
+          description={
+            threshold === 100
+              ? 'When a limit is used up'
+              : `When ${threshold}% of a limit is used`
+          }
+          checked={limitAlertThresholds.includes(threshold)}
+          onChange={(checked) => toggleThreshold(threshold, checked)}
+        />
+      ))}
+
+      <div class='setting-item'>
+        <div class='setting-info'>
+          <label class='setting-label'>Limits Reset At</label>
+          <p class='setting-description'>
+            Start of the day for limits, e.g. later for night owls
+          </p>
+        </div>
+        <select
+          class='rule-select'
+          value={limitResetHour}
+          onChange={(e) =>
+            onUpdate(
+              'limitResetHour',
+              Number((e.target as HTMLSelectElement).value)
+            )
+          }
+        >
+          {HOURS.map((hour) => (
+            <option key={hour} value={hour}>
+              {String(hour).padStart(2, '0')}:00
+            </option>
+          ))}
+        </select>
+      </div>
+    </section>
+  );
+};
+
+export default LimitsSection;
@@ -0,0 +1,81 @@
+import { render } from 'preact';
+import { Clock, Wrench } from 'lucide-react';
+import '../popup/style.css';
+import './style.css';
+import DomainRulesSection from '../popup/components/DomainRulesSection';
+import IdleSettingsSection from '../popup/components/IdleSettingsSection';
+import SettingToggle from '../popup/components/SettingToggle';
+import { useSettings } from '../popup/utils/useSettings';
+import GeneralSection from './components/GeneralSection';
+import InteractionSection from './components/InteractionSection';
+import DataSection from './components/DataSection';
+import LimitsSection from './components/LimitsSection';
+import FocusSection from './components/FocusSection';
+import CategoriesSection from './components/CategoriesSection';
+
+const OptionsApp = () => {
+  const { settings, updateSetting, error } = useSettings();
+
+  return (
+    <div class='options-page'>
+      <header class='options-header'>
+        <h1>Activity Analytics Settings</h1>
+        <p>Everything stays on this device.</p>
+      </header>
+
+      {error && <p class='options-error'>{error}</p>}
+
+      <div class='settings-tab'>
+        <GeneralSection settings={settings} onUpdate={updateSetting} />
+
+        <section class='settings-section'>
+          <h3>
+            <Clock size={18} />
+            Idle Detection
+          </h3>
+          <IdleSettingsSection
+            idleThresholdSeconds={settings.idleThresholdSeconds}
+            idleOverrides={settings.idleOverrides}
+            onUpdate={updateSetting}
+          />
+        </section>
+
+        <DomainRulesSection />
+
+        <CategoriesSection settings={settings} onUpdate={updateSetting} />
+
+        <LimitsSection settings={settings} onUpdate={updateSetting} />
+
+        <FocusSection settings={settings} onUpdate={updateSetting} />
+
+        <InteractionSection settings={settings} onUpdate={updateSetting} />
+
+        <DataSection settings={settings} onUpdate={updateSetting} />
+
+        <section class='settings-section'>
+          <h3>
+            <Wrench size={18} />
+            Advanced
+          </h3>
+          <SettingToggle
+            label='Detailed Logging'
+            description='Enable detailed activity logging for debugging'
+            checked={settings.detailedLogging}
+            onChange={(checked) => updateSetting('detailedLogging', checked)}
+          />
+        </section>
+      </div>
+    </div>
+  );
+};
+
+const initApp = () => {
+  const appElement = document.getElementById('app');
+  if (appElement) render(<OptionsApp />, appElement);
+};
+
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', initApp);
+} else {
+  initApp();
+}
@@ -1,6 +1,7 @@
 import { Doughnut } from 'react-chartjs-2';
 import { Chart as ChartJS, ArcElement, Tooltip, Legend } from 'chart.js';
-import { formatTime } from '../utils/time';
+import { formatTime } from '../../../shared/utils/time';
+import DailyTrendChart from './DailyTrendChart';
 
 ChartJS.register(ArcElement, Tooltip, Legend);
 
@@ -11,11 +12,16 @@ interface Domain {
   visitCount: number;
 }
 
-interface ActivityChartProps {
+interface DomainDoughnutProps {
   domains: Domain[];
   totalTime: number;
 }
 
+interface ActivityChartProps extends DomainDoughnutProps {
+  selectedDate: Date;
+  onSelectDate: (date: Date) => void;
+}
+
 const CHART_COLORS = [
   '#FF6B6B', // Red
   '#4ECDC4', // Teal
@@ -27,7 +33,7 @@ const CHART_COLORS = [
   '#5F27CD', // Purple
 ];
 
-const ActivityChart = ({ domains, totalTime }: ActivityChartProps) => {
+const DomainDoughnut = ({ domains, totalTime }: DomainDoughnutProps) => {
   if (!domains || domains.length === 0 || totalTime === 0) {
     return (
       <div class='chart-container'>
@@ -136,8 +142,6 @@ const ActivityChart = ({ domains, totalTime }: ActivityChartProps) => {
     },
   };
 
-  ChartJS.register(centerTextPlugin);
-
   return (
     <div class='chart-container'>
       <div class='doughnut-wrapper'>
@@ -147,4 +151,16 @@ const ActivityChart = ({ domains, totalTime }: ActivityChartProps) => {
   );
 };
 
+const ActivityChart = ({
+  domains,
+  totalTime,
+  selectedDate,
+  onSelectDate,
+}: ActivityChartProps) => (
+  <>
+    <DomainDoughnut domains={domains} totalTime={totalTime} />
+    <DailyTrendChart selectedDate={selectedDate} onSelectDate={onSelectDate} />
+  </>
+);
+
 export default ActivityChart;
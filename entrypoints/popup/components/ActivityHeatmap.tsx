@@ -0,0 +1,137 @@
+import { useEffect, useState } from 'preact/hooks';
+import { X } from 'lucide-react';
+import { sendMessage } from '../../../shared/utils/messaging';
+import {
+  addDays,
+  getStartOfNextDay,
+} from '../../../shared/utils/date-utils';
+import type { Heatmap } from '../../../shared/types/interfaces';
+import { formatFullTime } from '../../../shared/utils/time';
+
+const RANGE_OPTIONS = [7, 30, 90];
+// Rows start on Monday; cells are indexed by Date.getDay()
+const WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+interface Cell {
+  weekday: number;
+  hour: number;
+}
+
+const ActivityHeatmap = () => {
+  const [days, setDays] = useState(30);
+  const [domain, setDomain] = useState<string | null>(null);
+  const [heatmap, setHeatmap] = useState<Heatmap | null>(null);
+  const [selected, setSelected] = useState<Cell | null>(null);
+
+  useEffect(() => {
+    const end = getStartOfNextDay(Date.now());
+    sendMessage('GET_HEATMAP', {
+      start: addDays(end, -days),
+      end,
+      domain: domain ?? undefined,
+    })
+      .then(setHeatmap)
+      .catch((error) => console.error('Failed to load heatmap:', error));
+  }, [days, domain]);
+
+  if (!heatmap) return null;
+
+  const max = Math.max(1, ...heatmap.cells.flat());
+  const selectedDomains = selected
+    ? heatmap.cellDomains[`${selected.weekday}-${selected.hour}`] ?? []
+    : [];
+
+  const filterBy = (value: string | null) => {
+    setDomain(value);
+    setSelected(null);
+  };
+
+  return (
+    <div class='heatmap'>
+      <div class='heatmap-header'>
+        <h3>Activity by Hour</h3>
+        <select
+          class='rule-select'
+          value={days}
+          onChange={(e) =>
+            setDays(Number((e.target as HTMLSelectElement).value))
+          }
+        >
+          {RANGE_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              Last {option} days
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {domain && (
+        <button class='heatmap-filter' onClick={() => filterBy(null)}>
+          {domain}
+          <X size={12} />
+        </button>
+      )}
+
+      <div class='heatmap-grid'>
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} class='heatmap-row'>
+            <span class='heatmap-label'>{WEEKDAY_LABELS[weekday]}</span>
+            {HOURS.map((hour) => {
+              const time = heatmap.cells[weekday][hour];
+              const isSelected =
+                selected?.weekday === weekday && selected.hour === hour;
+
+              return (
+                <button
+                  key={hour}
+                  class={`heatmap-cell ${isSelected ? 'selected' : ''}`}
+                  style={{ opacity: time > 0 ? 0.15 + (time / max) * 0.85 : 0.06 }}
+                  title={`${WEEKDAY_LABELS[weekday]} ${hour}:00 - ${formatFullTime(time)}`}
+                  onClick={() =>
+                    setSelected(isSelected ? null : { weekday, hour })
+                  }
+                />
+              );
+            })}
+          </div>
+        ))}
+        <div class='heatmap-row'>
+          <span class='heatmap-label' />
+          {HOURS.map((hour) => (
+            <span key={hour} class='heatmap-hour'>
+              {hour % 6 === 0 ? hour : ''}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {selected && (
+        <div class='heatmap-domains'>
+          <p>
+            {WEEKDAY_LABELS[selected.weekday]} {selected.hour}:00 -{' '}
+            {formatFullTime(heatmap.cells[selected.weekday][selected.hour])}
+          </p>
+          {selectedDomains.length === 0 ? (
+            <small>No activity</small>
+          ) : (
+            selectedDomains.map((entry) => (
+              <button
+                key={entry.domain}
+                class='heatmap-domain'
+                onClick={() => filterBy(entry.domain)}
+                title='Show only this site'
+              >
+                <span>{entry.domain}</span>
+                <span>{formatFullTime(entry.activeTime)}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityHeatmap;
@@ -0,0 +1,85 @@
+import { Bar } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+} from 'chart.js';
+import {
+  CATEGORY_COLORS,
+  CATEGORY_LABELS,
+} from '../../../shared/constants/categories';
+import type { CategoryStats } from '../../../shared/types/interfaces';
+import { formatTime } from '../../../shared/utils/time';
+
+ChartJS.register(BarElement, CategoryScale, LinearScale);
+
+interface CategoryChartProps {
+  categories: CategoryStats[];
+}
+
+const CategoryChart = ({ categories }: CategoryChartProps) => {
+  const visible = categories.filter((entry) => entry.totalTime > 0);
+  if (visible.length === 0) return null;
+
+  const data = {
+    labels: visible.map((entry) => CATEGORY_LABELS[entry.category]),
+    datasets: [
+      {
+        data: visible.map((entry) => entry.totalTime),
+        backgroundColor: visible.map(
+          (entry) => CATEGORY_COLORS[entry.category]
+        ),
+        borderRadius: 4,
+      },
+    ],
+  };
+
+  const options = {
+    indexAxis: 'y' as const,
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: any) => {
+            const entry = visible[context.dataIndex];
+            return `${formatTime(entry.totalTime)} on ${entry.domainCount} site${
+              entry.domainCount === 1 ? '' : 's'
+            }`;
+          },
+        },
+      },
+    },
+    scales: {
+      x: {
+        ticks: {
+          font: { size: 10 },
+          maxTicksLimit: 4,
+          callback: (value: number | string) => formatTime(Number(value)),
+        },
+      },
+      y: {
+        grid: { display: false },
+        ticks: { font: { size: 11 } },
+      },
+    },
+  };
+
+  return (
+    <div class='category-chart'>
+      <h3>By Category</h3>
+      <div
+        class='category-wrapper'
+        style={{ height: `${visible.length * 24 + 24}px` }}
+      >
+        <Bar data={data} options={options} />
+      </div>
+    </div>
+  );
+};
+
+export default CategoryChart;
@@ -0,0 +1,166 @@
+import { useEffect, useState } from 'preact/hooks';
+import { Bar } from 'react-chartjs-2';
+import {
+  Chart as ChartJS,
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement,
+  type ChartData,
+} from 'chart.js';
+import { sendMessage } from '../../../shared/utils/messaging';
+import { indicatorColors } from '../../../shared/constants/constants';
+import type { DailyTrend } from '../../../shared/types/interfaces';
+import {
+  addDays,
+  getDayKey,
+  getStartOfNextDay,
+  parseDayKey,
+} from '../../../shared/utils/date-utils';
+import { formatTime } from '../../../shared/utils/time';
+
+// The average line is a line dataset drawn over the bars
+ChartJS.register(
+  BarElement,
+  CategoryScale,
+  LinearScale,
+  LineController,
+  LineElement,
+  PointElement
+);
+
+const RANGE_OPTIONS = [7, 30, 90];
+const OTHER_COLOR = '#BDC3C7';
+
+interface DailyTrendChartProps {
+  selectedDate: Date;
+  onSelectDate: (date: Date) => void;
+}
+
+const DailyTrendChart = ({ selectedDate, onSelectDate }: DailyTrendChartProps) => {
+  const [days, setDays] = useState(7);
+  const [trend, setTrend] = useState<DailyTrend | null>(null);
+
+  useEffect(() => {
+    const end = getStartOfNextDay(Date.now());
+    sendMessage('GET_DAILY_TREND', { start: addDays(end, -days), end })
+      .then(setTrend)
+      .catch((error) => console.error('Failed to load daily trend:', error));
+  }, [days]);
+
+  if (!trend) return null;
+
+  const totals = trend.days.map(
+    (day) => day.domains.reduce((sum, time) => sum + time, 0) + day.other
+  );
+  // Days without browsing count towards the average
+  const average =
+    totals.reduce((sum, total) => sum + total, 0) /
+    Math.max(trend.days.length, 1);
+  const selectedKey = getDayKey(selectedDate.getTime());
+
+  const data: ChartData<'bar' | 'line', number[], string> = {
+    labels: trend.days.map((day) =>
+      new Date(parseDayKey(day.date)).toLocaleDateString(
+        undefined,
+        days === 7 ? { weekday: 'short' } : { day: 'numeric', month: 'short' }
+      )
+    ),
+    datasets: [
+      {
+        type: 'line' as const,
+        label: 'Daily average',
+        data: trend.days.map(() => average),
+        borderColor: '#2C3E50',
+        borderDash: [4, 4],
+        borderWidth: 1,
+        pointRadius: 0,
+      },
+      ...trend.domains.map((domain, index) => ({
+        type: 'bar' as const,
+        label: domain,
+        data: trend.days.map((day) => day.domains[index]),
+        backgroundColor: indicatorColors[index % indicatorColors.length],
+        stack: 'domains',
+      })),
+      {
+        type: 'bar' as const,
+        label: 'Other',
+        data: trend.days.map((day) => day.other),
+        backgroundColor: OTHER_COLOR,
+        stack: 'domains',
+      },
+    ],
+  };
+
+  const options = {
+    responsive: true,
+    maintainAspectRatio: false,
+    onClick: (_event: unknown, elements: { index: number }[]) => {
+      if (elements.length === 0) return;
+      onSelectDate(new Date(parseDayKey(trend.days[elements[0].index].date)));
+    },
+    plugins: {
+      legend: {
+        display: false,
+      },
+      tooltip: {
+        callbacks: {
+          label: (context: any) =>
+            `${context.dataset.label}: ${formatTime(context.raw)}`,
+        },
+      },
+    },
+    scales: {
+      x: {
+        stacked: true,
+        grid: { display: false },
+        ticks: {
+          font: { size: 10 },
+          // Darker label for the day the rest of the popup is showing
+          color: (context: any) =>
+            trend.days[context.index]?.date === selectedKey
+              ? '#2C3E50'
+              : '#7F8C8D',
+        },
+      },
+      y: {
+        stacked: true,
+        ticks: {
+          font: { size: 10 },
+          maxTicksLimit: 4,
+          callback: (value: number | string) => formatTime(Number(value)),
+        },
+      },
+    },
+  };
+
+  return (
+    <div class='trend-chart'>
+      <div class='trend-header'>
+        <h3>Daily Trend</h3>
+        <select
+          class='rule-select'
+          value={days}
+          onChange={(e) =>
+            setDays(Number((e.target as HTMLSelectElement).value))
+          }
+        >
+          {RANGE_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              Last {option} days
+            </option>
+          ))}
+        </select>
+      </div>
+      <div class='trend-wrapper'>
+        {/* Bar's typings don't allow the line dataset a mixed chart needs */}
+        <Bar data={data as ChartData<'bar', number[], string>} options={options} />
+      </div>
+    </div>
+  );
+};
+
+export default DailyTrendChart;
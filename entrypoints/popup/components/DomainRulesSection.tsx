@@ -0,0 +1,140 @@
+import { useState, useEffect, useCallback } from 'preact/hooks';
+import { ListFilter, Plus, Trash2 } from 'lucide-react';
+import { sendMessage } from '../../../shared/utils/messaging';
+import type { DomainRule } from '../../../shared/types/database';
+
+const RULE_LABELS: Record<DomainRule['ruleType'], string> = {
+  blacklist: 'Never track',
+  whitelist: 'Only track',
+  privacy_sensitive: 'Time only',
+};
+
+const DomainRulesSection = () => {
+  const [rules, setRules] = useState<DomainRule[]>([]);
+  const [domain, setDomain] = useState('');
+  const [ruleType, setRuleType] = useState<DomainRule['ruleType']>('blacklist');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = useCallback(async () => {
+    const response = await sendMessage('GET_DOMAIN_RULES');
+    setRules(response.rules);
+  }, []);
+
+  useEffect(() => {
+    loadRules().catch((error) => console.error('Failed to load rules:', error));
+  }, [loadRules]);
+
+  const handleAdd = async (e: Event) => {
+    e.preventDefault();
+    if (!domain.trim()) return;
+
+    try {
+      await sendMessage('ADD_DOMAIN_RULE', { domain, ruleType });
+    } catch (error) {
+      setError((error as Error).message || 'Failed to add rule');
+      return;
+    }
+
+    setError(null);
+    setDomain('');
+    await loadRules();
+  };
+
+  const handleToggle = async (rule: DomainRule) => {
+    await sendMessage('UPDATE_DOMAIN_RULE', {
+      id: rule.id!,
+      isActive: !rule.isActive,
+    });
+    await loadRules();
+  };
+
+  const handleRemove = async (rule: DomainRule) => {
+    await sendMessage('REMOVE_DOMAIN_RULE', { id: rule.id! });
+    await loadRules();
+  };
+
+  const whitelistMode = rules.some(
+    (rule) => rule.ruleType === 'whitelist' && rule.isActive
+  );
+
+  return (
+    <section class='settings-section'>
+      <h3>
+        <ListFilter size={18} />
+        Domain Rules
+      </h3>
+
+      <form class='rule-form' onSubmit={handleAdd}>
+        <input
+          class='rule-input'
+          type='text'
+          placeholder='example.com or *.example.com'
+          value={domain}
+          onInput={(e) => setDomain((e.target as HTMLInputElement).value)}
+        />
+        <select
+          class='rule-select'
+          value={ruleType}
+          onChange={(e) =>
+            setRuleType(
+              (e.target as HTMLSelectElement).value as DomainRule['ruleType']
+            )
+          }
+        >
+          {Object.entries(RULE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <button class='btn btn-primary' type='submit'>
+          <Plus size={14} />
+        </button>
+      </form>
+
+      {error && <p class='rule-error'>{error}</p>}
+
+      {whitelistMode && (
+        <p class='setting-description'>
+          Whitelist mode is on: only listed domains are tracked.
+        </p>
+      )}
+
+      {rules.length === 0 ? (
+        <p class='setting-description'>
+          No rules yet. All domains are tracked.
+        </p>
+      ) : (
+        <div class='rule-list'>
+          {rules.map((rule) => (
+            <div key={rule.id} class='setting-item'>
+              <div class='setting-info'>
+                <label class='setting-label'>{rule.domain}</label>
+                <p class='setting-description'>{RULE_LABELS[rule.ruleType]}</p>
+              </div>
+              <div class='rule-actions'>
+                <label class='switch'>
+                  <input
+                    type='checkbox'
+                    checked={rule.isActive}
+                    onChange={() => handleToggle(rule)}
+                  />
+                  <span class='slider'></span>
+                </label>
+                <button
+                  class='rule-remove-btn'
+                  onClick={() => handleRemove(rule)}
+                  title='Remove rule'
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+export default DomainRulesSection;
@@ -0,0 +1,84 @@
+import { useState } from 'preact/hooks';
+import { Download } from 'lucide-react';
+import {
+  EXPORT_FORMATS,
+  type ExportFormat,
+  type ExportOptions,
+} from '../utils/export';
+import {
+  getStartOfNextDay,
+  parseDayKey,
+} from '../../../shared/utils/date-utils';
+
+interface ExportControlsProps {
+  onExport: (options: ExportOptions) => void | Promise<void>;
+}
+
+const ExportControls = ({ onExport }: ExportControlsProps) => {
+  const [format, setFormat] = useState<ExportFormat>('json');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exporting, setExporting] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      await onExport({
+        format,
+        start: from ? parseDayKey(from) : undefined,
+        end: to ? getStartOfNextDay(parseDayKey(to)) : undefined,
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div class='export-controls'>
+      <select
+        class='rule-select'
+        value={format}
+        onChange={(e) =>
+          setFormat((e.target as HTMLSelectElement).value as ExportFormat)
+        }
+      >
+        {Object.entries(EXPORT_FORMATS).map(([value, { label }]) => (
+          <option key={value} value={value}>
+            {label}
+          </option>
+        ))}
+      </select>
+
+      <div class='export-range'>
+        <input
+          class='rule-input'
+          type='date'
+          value={from}
+          max={to || undefined}
+          onInput={(e) => setFrom((e.target as HTMLInputElement).value)}
+          title='From (inclusive)'
+        />
+        <span>–</span>
+        <input
+          class='rule-input'
+          type='date'
+          value={to}
+          min={from || undefined}
+          onInput={(e) => setTo((e.target as HTMLInputElement).value)}
+          title='To (inclusive)'
+        />
+      </div>
+
+      <button
+        class='btn btn-secondary'
+        onClick={handleExport}
+        disabled={exporting}
+      >
+        <Download size={16} />
+        {exporting ? 'Exporting…' : 'Export Data'}
+      </button>
+    </div>
+  );
+};
+
+export default ExportControls;
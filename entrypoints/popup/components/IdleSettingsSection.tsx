@@ -0,0 +1,149 @@
+import { useState } from 'preact/hooks';
+import { Clock, Plus, Trash2 } from 'lucide-react';
+import type { ExtensionSettings } from '../../../shared/types/settings';
+import {
+  isValidDomainPattern,
+  normalizeDomain,
+} from '../../../shared/utils/url-utils';
+import { formatFullTime } from '../../../shared/utils/time';
+
+const IDLE_OPTIONS = [15, 30, 60, 120, 300, 600, 1800];
+
+interface IdleSettingsSectionProps {
+  idleThresholdSeconds: number;
+  idleOverrides: Record<string, number>;
+  onUpdate: <K extends keyof ExtensionSettings>(
+    key: K,
+    value: ExtensionSettings[K]
+  ) => void;
+}
+
+const IdleOptions = () => (
+  <>
+    {IDLE_OPTIONS.map((seconds) => (
+      <option key={seconds} value={seconds}>
+        {formatFullTime(seconds * 1000)}
+      </option>
+    ))}
+  </>
+);
+
+const IdleSettingsSection = ({
+  idleThresholdSeconds,
+  idleOverrides,
+  onUpdate,
+}: IdleSettingsSectionProps) => {
+  const [domain, setDomain] = useState('');
+  const [seconds, setSeconds] = useState(600);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleAdd = (e: Event) => {
+    e.preventDefault();
+
+    const pattern = normalizeDomain(domain);
+    if (!isValidDomainPattern(pattern)) {
+      setError(`Invalid domain pattern: ${domain}`);
+      return;
+    }
+
+    setError(null);
+    setDomain('');
+    onUpdate('idleOverrides', { ...idleOverrides, [pattern]: seconds });
+  };
+
+  const handleRemove = (pattern: string) => {
+    const { [pattern]: _removed, ...rest } = idleOverrides;
+    onUpdate('idleOverrides', rest);
+  };
+
+  const overrides = Object.entries(idleOverrides).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+
+  return (
+    <>
+      <div class='setting-item'>
+        <div class='setting-info'>
+          <label class='setting-label'>Idle Detection</label>
+          <p class='setting-description'>
+            Stop tracking after {formatFullTime(idleThresholdSeconds * 1000)} of
+            inactivity
+          </p>
+        </div>
+        <div class='setting-value'>
+          <Clock size={16} />
+          <select
+            class='rule-select'
+            value={idleThresholdSeconds}
+            onChange={(e) =>
+              onUpdate(
+                'idleThresholdSeconds',
+                Number((e.target as HTMLSelectElement).value)
+              )
+            }
+          >
+            {!IDLE_OPTIONS.includes(idleThresholdSeconds) && (
+              <option value={idleThresholdSeconds}>
+                {formatFullTime(idleThresholdSeconds * 1000)}
+              </option>
+            )}
+            <IdleOptions />
+          </select>
+        </div>
+      </div>
+
+      <div class='setting-item'>
+        <div class='setting-info'>
+          <label class='setting-label'>Per-site Idle Timeouts</label>
+          <p class='setting-description'>
+            Longer for docs or video, shorter for social feeds
+          </p>
+        </div>
+      </div>
+
+      <form class='rule-form' onSubmit={handleAdd}>
+        <input
+          class='rule-input'
+          type='text'
+          placeholder='*.youtube.com'
+          value={domain}
+          onInput={(e) => setDomain((e.target as HTMLInputElement).value)}
+        />
+        <select
+          class='rule-select'
+          value={seconds}
+          onChange={(e) =>
+            setSeconds(Number((e.target as HTMLSelectElement).value))
+          }
+        >
+          <IdleOptions />
+        </select>
+        <button class='btn btn-primary' type='submit'>
+          <Plus size={14} />
+        </button>
+      </form>
+
+      {error && <p class='rule-error'>{error}</p>}
+
+      {overrides.map(([pattern, value]) => (
+        <div key={pattern} class='setting-item'>
+          <div class='setting-info'>
+            <label class='setting-label'>{pattern}</label>
+            <p class='setting-description'>
+              Idle after {formatFullTime(value * 1000)}
+            </p>
+          </div>
+          <button
+            class='rule-remove-btn'
+            onClick={() => handleRemove(pattern)}
+            title='Remove override'
+          >
+            <Trash2 size={14} />
+          </button>
+        </div>
+      ))}
+    </>
+  );
+};
+
+export default IdleSettingsSection;
@@ -0,0 +1,33 @@
+interface SettingToggleProps {
+  label: string;
+  description: string;
+  checked: boolean;
+  disabled?: boolean;
+  onChange: (checked: boolean) => void;
+}
+
+const SettingToggle = ({
+  label,
+  description,
+  checked,
+  disabled = false,
+  onChange,
+}: SettingToggleProps) => (
+  <div class='setting-item'>
+    <div class='setting-info'>
+      <label class='setting-label'>{label}</label>
+      <p class='setting-description'>{description}</p>
+    </div>
+    <label class='switch'>
+      <input
+        type='checkbox'
+        checked={checked}
+        disabled={disabled}
+        onChange={(e) => onChange((e.target as HTMLInputElement).checked)}
+      />
+      <span class='slider'></span>
+    </label>
+  </div>
+);
+
+export default SettingToggle;
@@ -1,19 +1,24 @@
-import { useState, useEffect } from 'preact/hooks';
+import { useState } from 'preact/hooks';
 import {
   Play,
   Pause,
-  Download,
   Trash2,
   Globe,
-  Clock,
   Shield,
+  SlidersHorizontal,
+  FileText,
 } from 'lucide-react';
-import { sendMessage } from '../../../shared/utils/messaging';
+import DomainRulesSection from './DomainRulesSection';
+import IdleSettingsSection from './IdleSettingsSection';
+import SettingToggle from './SettingToggle';
+import ExportControls from './ExportControls';
+import type { ExportOptions } from '../utils/export';
+import { useSettings } from '../utils/useSettings';
 
 interface SettingsTabProps {
   isTrackingEnabled: boolean;
   onToggleTracking: () => void;
-  onExport: () => void;
+  onExport: (options?: ExportOptions) => void;
   onClear: () => void;
 }
 
@@ -24,25 +29,7 @@ const SettingsTab = ({
   onClear,
 }: SettingsTabProps) => {
   const [showAdvanced, setShowAdvanced] = useState(false);
-  const [badgeEnabled, setBadgeEnabled] = useState(true);
-
-  useEffect(() => {
-    // Load badge setting
-    browser.storage.sync.get(['badgeEnabled']).then((result) => {
-      setBadgeEnabled(result.badgeEnabled !== false);
-    });
-  }, []);
-
-  const handleBadgeToggle = async (enabled: boolean) => {
-    try {
-      setBadgeEnabled(enabled);
-      await sendMessage('SET_BADGE_ENABLED', { enabled });
-      await browser.storage.sync.set({ badgeEnabled: enabled });
-    } catch (error) {
-      console.error('Failed to toggle badge:', error);
-      setBadgeEnabled(!enabled); // Revert on error
-    }
-  };
+  const { settings, updateSetting } = useSettings();
 
   return (
     <div class='settings-tab'>
@@ -71,37 +58,18 @@ const SettingsTab = ({
           </button>
         </div>
 
-        <div class='setting-item'>
-          <div class='setting-info'>
-            <label class='setting-label'>Badge Display</label>
-            <p class='setting-description'>
-              Show time spent on current tab in extension badge
-            </p>
-          </div>
-          <label class='switch'>
-            <input
-              type='checkbox'
-              checked={badgeEnabled}
-              onChange={(e) =>
-                handleBadgeToggle((e.target as HTMLInputElement).checked)
-              }
-            />
-            <span class='slider'></span>
-          </label>
-        </div>
-
-        <div class='setting-item'>
-          <div class='setting-info'>
-            <label class='setting-label'>Idle Detection</label>
-            <p class='setting-description'>
-              Stop tracking after 30 seconds of inactivity
-            </p>
-          </div>
-          <div class='setting-value'>
-            <Clock size={16} />
-            <span>30s</span>
-          </div>
-        </div>
+        <SettingToggle
+          label='Badge Display'
+          description='Show time spent on current tab in extension badge'
+          checked={settings.badgeEnabled}
+          onChange={(checked) => updateSetting('badgeEnabled', checked)}
+        />
+
+        <IdleSettingsSection
+          idleThresholdSeconds={settings.idleThresholdSeconds}
+          idleOverrides={settings.idleOverrides}
+          onUpdate={updateSetting}
+        />
       </section>
 
       {/* Privacy Settings */}
@@ -133,16 +101,16 @@ const SettingsTab = ({
         </div>
       </section>
 
+      {/* Domain Rules */}
+      <DomainRulesSection />
+
       {/* Data Management */}
       <section class='settings-section'>
         <h3>Data Management</h3>
 
-        <div class='data-actions'>
-          <button class='btn btn-secondary' onClick={onExport}>
-            <Download size={16} />
-            Export Data
-          </button>
+        <ExportControls onExport={onExport} />
 
+        <div class='data-actions'>
           <button class='btn btn-danger' onClick={onClear}>
             <Trash2 size={16} />
             Clear All Data
@@ -151,8 +119,8 @@ const SettingsTab = ({
 
         <div class='data-info'>
           <p class='info-text'>
-            Export your data as JSON for backup or analysis. Clearing data will
-            permanently remove all tracking history.
+            Export a JSON backup, or CSV/NDJSON for analysis in a date range.
+            Clearing data will permanently remove all tracking history.
           </p>
         </div>
       </section>
@@ -169,48 +137,48 @@ const SettingsTab = ({
 
         {showAdvanced && (
           <div class='advanced-settings'>
-            <div class='setting-item'>
-              <div class='setting-info'>
-                <label class='setting-label'>Detailed Logging</label>
-                <p class='setting-description'>
-                  Enable detailed activity logging for debugging
-                </p>
-              </div>
-              <label class='switch'>
-                <input type='checkbox' />
-                <span class='slider'></span>
-              </label>
-            </div>
-
-            <div class='setting-item'>
-              <div class='setting-info'>
-                <label class='setting-label'>Auto-cleanup</label>
-                <p class='setting-description'>
-                  Automatically remove data older than 90 days
-                </p>
-              </div>
-              <label class='switch'>
-                <input type='checkbox' defaultChecked />
-                <span class='slider'></span>
-              </label>
-            </div>
-
-            <div class='setting-item'>
-              <div class='setting-info'>
-                <label class='setting-label'>SPA Detection</label>
-                <p class='setting-description'>
-                  Track single-page application navigation
-                </p>
-              </div>
-              <label class='switch'>
-                <input type='checkbox' defaultChecked />
-                <span class='slider'></span>
-              </label>
-            </div>
+            <SettingToggle
+              label='Detailed Logging'
+              description='Enable detailed activity logging for debugging'
+              checked={settings.detailedLogging}
+              onChange={(checked) => updateSetting('detailedLogging', checked)}
+            />
+
+            <SettingToggle
+              label='Auto-cleanup'
+              description={`Remove interaction events after ${settings.interactionRetentionDays} days and history after ${settings.retentionDays} days`}
+              checked={settings.autoCleanup}
+              onChange={(checked) => updateSetting('autoCleanup', checked)}
+            />
+
+            <SettingToggle
+              label='SPA Detection'
+              description='Track single-page application navigation'
+              checked={settings.spaDetection}
+              onChange={(checked) => updateSetting('spaDetection', checked)}
+            />
           </div>
         )}
       </section>
 
+      <button
+        class='btn btn-secondary'
+        onClick={() => chrome.runtime.openOptionsPage()}
+      >
+        <SlidersHorizontal size={16} />
+        All Settings
+      </button>
+
+      <button
+        class='btn btn-secondary'
+        onClick={() =>
+          chrome.tabs.create({ url: chrome.runtime.getURL('/report.html') })
+        }
+      >
+        <FileText size={16} />
+        Weekly &amp; Monthly Reports
+      </button>
+
       {/* Footer Info */}
       <div class='settings-footer'>
         <div class='version-info'>
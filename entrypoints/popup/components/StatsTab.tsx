@@ -1,4 +1,5 @@
-import { formatTime } from '../utils/time';
+import { formatTime } from '../../../shared/utils/time';
+import ActivityHeatmap from './ActivityHeatmap';
 import type { Stats } from '../utils/types';
 
 interface StatsTabProps {
@@ -49,6 +50,8 @@ const StatsTab = ({ stats, onExport, onClear }: StatsTabProps) => {
         </div>
       </div>
 
+      <ActivityHeatmap />
+
       <div class='detailed-stats'>
         <h3>Detailed Statistics</h3>
 
@@ -59,7 +62,7 @@ const StatsTab = ({ stats, onExport, onClear }: StatsTabProps) => {
           </div>
         ) : (
           <div class='domain-details'>
-            {stats.topDomains.map((domain, index) => {
+            {stats.topDomains.slice(0, 10).map((domain, index) => {
               const avgTimePerVisit =
                 domain.visitCount > 0
                   ? domain.totalTime / domain.visitCount
@@ -86,10 +89,28 @@ const StatsTab = ({ stats, onExport, onClear }: StatsTabProps) => {
                         {formatTime(domain.totalTime)}
                       </span>
                     </div>
+                    <div class='metric'>
+                      <span class='metric-label'>Media Time:</span>
+                      <span class='metric-value'>
+                        {formatTime(domain.passiveTime || 0)}
+                      </span>
+                    </div>
+                    <div class='metric'>
+                      <span class='metric-label'>Visible Time:</span>
+                      <span class='metric-value'>
+                        {formatTime(domain.visibleTime || 0)}
+                      </span>
+                    </div>
                     <div class='metric'>
                       <span class='metric-label'>Visits:</span>
                       <span class='metric-value'>{domain.visitCount}</span>
                     </div>
+                    {!!domain.bypassCount && (
+                      <div class='metric'>
+                        <span class='metric-label'>Focus Bypasses:</span>
+                        <span class='metric-value'>{domain.bypassCount}</span>
+                      </div>
+                    )}
                     <div class='metric'>
                       <span class='metric-label'>Pages:</span>
                       <span class='metric-value'>{domain.pageCount}</span>
@@ -117,7 +138,7 @@ const StatsTab = ({ stats, onExport, onClear }: StatsTabProps) => {
 
       {/* Actions */}
       <div class='stats-actions'>
-        <button class='btn btn-secondary' onClick={onExport}>
+        <button class='btn btn-secondary' onClick={() => onExport()}>
           Export Data
         </button>
         <button class='btn btn-danger' onClick={onClear}>
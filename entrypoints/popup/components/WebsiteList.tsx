@@ -1,23 +1,34 @@
 import { useState } from 'preact/hooks';
-import { formatTime } from '../utils/time';
-import { Tab } from '../utils/types';
+import { formatTime } from '../../../shared/utils/time';
+import type { Tab } from '../utils/types';
 import { ArrowDown } from 'lucide-react';
 import { indicatorColors } from '../../../shared/constants/constants';
+import {
+  CATEGORIES,
+  CATEGORY_COLORS,
+  CATEGORY_LABELS,
+} from '../../../shared/constants/categories';
+import type { Category } from '../../../shared/types/settings';
 
 interface Domain {
   domain: string;
   totalTime: number;
+  passiveTime?: number;
+  visibleTime?: number;
   pageCount: number;
   visitCount: number;
+  category?: Category;
 }
 
 interface WebsiteListProps {
+  title: string;
   domains: Domain[];
   groupedTabs: { [key: string]: Tab[] };
   totalTime: number;
 }
 
 export default function WebsiteList({
+  title,
   domains,
   groupedTabs,
   totalTime,
@@ -25,11 +36,12 @@ export default function WebsiteList({
   const [expandedDomains, setExpandedDomains] = useState<
     Record<string, boolean>
   >({});
+  const [category, setCategory] = useState<Category | null>(null);
 
   if (!domains.length) {
     return (
       <div className='text-center p-10 text-gray-500'>
-        <p className='text-sm mb-1'>No browsing data for today</p>
+        <p className='text-sm mb-1'>No browsing data for this period</p>
         <small className='text-xs text-gray-400'>
           Start browsing to see your activity
         </small>
@@ -37,10 +49,43 @@ export default function WebsiteList({
     );
   }
 
+  // Only offer the categories present, in their usual order
+  const present = CATEGORIES.filter((entry) =>
+    domains.some((domain) => domain.category === entry)
+  );
+  // A filter left over from another period with no such sites shows everything
+  const active = category && present.includes(category) ? category : null;
+  const filtered = active
+    ? domains.filter((domain) => domain.category === active)
+    : domains;
+
   return (
     <div className='flex flex-col gap-2'>
-      <h3 className='text-sm font-semibold mb-2'>Today data</h3>
-      {domains.slice(0, 8).map((domain, idx) => {
+      <h3 className='text-sm font-semibold mb-2'>{title}</h3>
+      {present.length > 1 && (
+        <div className='flex flex-wrap gap-1 mb-1'>
+          {present.map((entry) => (
+            <button
+              key={entry}
+              className={`px-2 py-0.5 rounded-full border text-xs ${
+                active === entry ? 'text-white' : 'bg-white text-gray-600'
+              }`}
+              style={
+                active === entry
+                  ? {
+                      backgroundColor: CATEGORY_COLORS[entry],
+                      borderColor: CATEGORY_COLORS[entry],
+                    }
+                  : undefined
+              }
+              onClick={() => setCategory(active === entry ? null : entry)}
+            >
+              {CATEGORY_LABELS[entry]}
+            </button>
+          ))}
+        </div>
+      )}
+      {filtered.slice(0, 8).map((domain, idx) => {
         const percentage = totalTime
           ? ((domain.totalTime / totalTime) * 100).toFixed(1)
           : '0.0';
@@ -78,6 +123,16 @@ export default function WebsiteList({
                   <span className='text-xs text-gray-500'>
                     {formatTime(domain.totalTime)}
                   </span>
+                  {!!domain.passiveTime && (
+                    <span className='text-xs text-purple-500'>
+                      + {formatTime(domain.passiveTime)} media
+                    </span>
+                  )}
+                  {!!domain.visibleTime && (
+                    <span className='text-xs text-teal-500'>
+                      + {formatTime(domain.visibleTime)} visible
+                    </span>
+                  )}
                 </div>
                 {domainTabs.length > 0 && (
                   <div className='flex items-center gap-1 text-gray-500'>
@@ -123,6 +178,16 @@ export default function WebsiteList({
                         <span className='text-xs text-gray-500'>
                           {formatTime(tab.totalActiveTime || 0)}
                         </span>
+                        {!!tab.totalPassiveTime && (
+                          <span className='text-xs text-purple-500'>
+                            + {formatTime(tab.totalPassiveTime)} media
+                          </span>
+                        )}
+                        {!!tab.totalVisibleTime && (
+                          <span className='text-xs text-teal-500'>
+                            + {formatTime(tab.totalVisibleTime)} visible
+                          </span>
+                        )}
                       </div>
                     </div>
                   );
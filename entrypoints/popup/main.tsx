@@ -10,19 +10,76 @@ import {
 } from 'lucide-react';
 import './style.css';
 import ActivityChart from './components/ActivityChart';
+import CategoryChart from './components/CategoryChart';
 import StatsTab from './components/StatsTab';
 import SettingsTab from './components/SettingsTab';
-import type { Stats } from './utils/types';
+import type { RangeStats, Stats, ViewMode } from './utils/types';
 import WebsiteList from './components/WebsiteList';
+import { exportData, type ExportOptions } from './utils/export';
+import {
+  getDayKey,
+  getStartOfDay,
+  getStartOfNextDay,
+} from '../../shared/utils/date-utils';
 
 type TabType = 'home' | 'stats' | 'settings';
 
+const VIEW_TITLES: Record<ViewMode, string> = {
+  day: 'Day data',
+  average: 'Daily average',
+  'all-time': 'All-time data',
+};
+
+const getViewRange = (mode: ViewMode, date: Date) => {
+  if (mode === 'average') {
+    return { start: 0, end: getStartOfNextDay(Date.now()) };
+  }
+
+  return {
+    start: getStartOfDay(date.getTime()),
+    end: getStartOfNextDay(date.getTime()),
+  };
+};
+
+const averageRangeStats = (range: RangeStats): RangeStats => {
+  const days = Math.max(range.dayCount, 1);
+  const groupedTabs: RangeStats['groupedTabs'] = {};
+
+  Object.entries(range.groupedTabs).forEach(([domain, tabs]) => {
+    groupedTabs[domain] = tabs.map((tab) => ({
+      ...tab,
+      totalActiveTime: tab.totalActiveTime / days,
+      totalPassiveTime: (tab.totalPassiveTime || 0) / days,
+      totalVisibleTime: (tab.totalVisibleTime || 0) / days,
+    }));
+  });
+
+  return {
+    ...range,
+    topDomains: range.topDomains.map((domain) => ({
+      ...domain,
+      totalTime: domain.totalTime / days,
+      passiveTime: (domain.passiveTime || 0) / days,
+      visibleTime: (domain.visibleTime || 0) / days,
+    })),
+    groupedTabs,
+    categories: range.categories.map((category) => ({
+      ...category,
+      totalTime: category.totalTime / days,
+    })),
+    totalTime: range.totalTime / days,
+    passiveTime: range.passiveTime / days,
+    visibleTime: range.visibleTime / days,
+  };
+};
+
 const PopupApp = () => {
   const [stats, setStats] = useState<Stats | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<TabType>('home');
   const [selectedDate, setSelectedDate] = useState(new Date());
+  const [viewMode, setViewMode] = useState<ViewMode>('day');
 
   const loadStats = useCallback(async () => {
     try {
@@ -37,35 +94,51 @@ const PopupApp = () => {
 
       console.log(`DDDDDDDDDDDDDDDDDDDDDDDDDDDDD: ${url}`);
 
-      const [
-        todayTimeResponse,
-        statsResponse,
-        trackingResponse,
-        groupResponse,
-        metricsResponse,
-      ] = await Promise.all([
-        sendMessage('GET_TODAY_TIME'),
-        sendMessage('GET_STATS'),
-        sendMessage('IS_TRACKING_ENABLED'),
-        sendMessage('GET_ALL_TABS'),
-        sendMessage('GET_METRICS', { url: url }),
-      ]);
+      const [todayTime, statsResponse, tracking, allTabs, rangeResponse, metrics] =
+        await Promise.all([
+          sendMessage('GET_TODAY_TIME'),
+          sendMessage('GET_STATS'),
+          sendMessage('IS_TRACKING_ENABLED'),
+          sendMessage('GET_ALL_TABS'),
+          viewMode === 'all-time'
+            ? Promise.resolve(null)
+            : sendMessage(
+                'GET_RANGE_STATS',
+                getViewRange(viewMode, selectedDate)
+              ),
+          sendMessage('GET_METRICS', { url }),
+        ]);
 
       console.log(
         `STATS FORM MAIN.TSX:`,
-        todayTimeResponse,
+        todayTime,
         statsResponse,
-        trackingResponse,
-        groupResponse.data.allTabs,
-        metricsResponse
+        tracking,
+        allTabs?.allTabs,
+        metrics
       );
 
+      let topDomains = statsResponse?.topDomains || [];
+      let groupedTabs = allTabs?.allTabs || {};
+      let categories = statsResponse?.categories || [];
+
+      if (rangeResponse) {
+        const range: RangeStats =
+          viewMode === 'average'
+            ? averageRangeStats(rangeResponse)
+            : rangeResponse;
+        topDomains = range.topDomains;
+        groupedTabs = range.groupedTabs;
+        categories = range.categories;
+      }
+
       setStats({
-        todayTime: todayTimeResponse.data?.todayTime || 0,
-        isTrackingEnabled: trackingResponse.data?.enabled || false,
-        topDomains: statsResponse.data?.topDomains || [],
-        currentTab: statsResponse.data?.currentTab,
-        groupedTabs: groupResponse.data?.allTabs || [],
+        todayTime: todayTime?.todayTime || 0,
+        isTrackingEnabled: tracking.enabled,
+        topDomains,
+        categories,
+        currentTab: statsResponse?.currentTab || null,
+        groupedTabs,
       });
     } catch (error) {
       console.error('Failed to load stats:', error);
@@ -74,11 +147,14 @@ const PopupApp = () => {
         todayTime: 0,
         isTrackingEnabled: false,
         topDomains: [],
+        categories: [],
+        currentTab: null,
+        groupedTabs: {},
       });
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [viewMode, selectedDate]);
 
   useEffect(() => {
     loadStats();
@@ -99,19 +175,9 @@ const PopupApp = () => {
     }
   }, [stats, loadStats]);
 
-  const handleExportData = useCallback(async () => {
+  const handleExportData = useCallback(async (options?: ExportOptions) => {
     try {
-      const response = await sendMessage('EXPORT_DATA');
-      const data = JSON.stringify(response.data, null, 2);
-      const blob = new Blob([data], { type: 'application/json' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `activity-analytics-${
-        new Date().toISOString().split('T')[0]
-      }.json`;
-      a.click();
-      URL.revokeObjectURL(url);
+      await exportData(options);
     } catch (e) {
       console.error(e);
       alert('Failed to export data');
@@ -132,7 +198,7 @@ const PopupApp = () => {
   }, [loadStats]);
 
   const formatDate = (date: Date) => {
-    return date.toISOString().split('T')[0];
+    return getDayKey(date.getTime());
   };
 
   const changeDate = (direction: 'prev' | 'next') => {
@@ -143,6 +209,16 @@ const PopupApp = () => {
       newDate.setDate(newDate.getDate() + 1);
     }
     setSelectedDate(newDate);
+    setViewMode('day');
+  };
+
+  const selectDate = (date: Date) => {
+    setSelectedDate(date);
+    setViewMode('day');
+  };
+
+  const toggleViewMode = (mode: ViewMode) => {
+    setViewMode((current) => (current === mode ? 'day' : mode));
   };
 
   const isToday = (date: Date) => {
@@ -216,32 +292,65 @@ const PopupApp = () => {
         {activeTab === 'home' && (
           <>
             <div class='date-navigation'>
-              <button class='date-nav-btn' onClick={() => changeDate('prev')}>
+              <button
+                class='date-nav-btn'
+                onClick={() => changeDate('prev')}
+                disabled={viewMode !== 'day'}
+              >
                 <ChevronLeft size={16} />
               </button>
 
               <div class='date-info'>
-                <span class='date-value'>{formatDate(selectedDate)}</span>
+                <span class='date-value'>
+                  {viewMode === 'day'
+                    ? formatDate(selectedDate)
+                    : VIEW_TITLES[viewMode]}
+                </span>
                 <div class='date-labels'>
-                  <span class='daily-average'>Daily average</span>
-                  <span class='all-time'>All-time</span>
+                  <button
+                    class={`date-mode-btn daily-average ${
+                      viewMode === 'average' ? 'active' : ''
+                    }`}
+                    onClick={() => toggleViewMode('average')}
+                  >
+                    Daily average
+                  </button>
+                  <button
+                    class={`date-mode-btn all-time ${
+                      viewMode === 'all-time' ? 'active' : ''
+                    }`}
+                    onClick={() => toggleViewMode('all-time')}
+                  >
+                    All-time
+                  </button>
                 </div>
               </div>
 
               <button
                 class='date-nav-btn'
                 onClick={() => changeDate('next')}
-                disabled={isToday(selectedDate)}
+                disabled={viewMode !== 'day' || isToday(selectedDate)}
               >
                 <ChevronRight size={16} />
               </button>
             </div>
 
             <div class='chart-section'>
-              <ActivityChart domains={stats.topDomains} totalTime={totalTime} />
+              <ActivityChart
+                domains={stats.topDomains}
+                totalTime={totalTime}
+                selectedDate={selectedDate}
+                onSelectDate={selectDate}
+              />
+              <CategoryChart categories={stats.categories} />
             </div>
 
             <WebsiteList
+              title={
+                viewMode === 'day' && isToday(selectedDate)
+                  ? 'Today data'
+                  : VIEW_TITLES[viewMode]
+              }
               domains={stats.topDomains}
               groupedTabs={stats.groupedTabs}
               totalTime={totalTime}
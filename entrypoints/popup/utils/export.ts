@@ -0,0 +1,151 @@
+import { sendMessage } from '../../../shared/utils/messaging';
+import { getDayKey } from '../../../shared/utils/date-utils';
+import { BACKUP_TABLES, EXPORT_VERSION } from '../../../shared/constants/constants';
+import type {
+  ChunkedExportFormat,
+  ExportChunk,
+  ImportMode,
+  ImportSummary,
+} from '../../../shared/types/interfaces';
+
+export type ExportFormat = 'json' | ChunkedExportFormat;
+
+export interface ExportOptions {
+  format: ExportFormat;
+  // [start, end) in ms
+  start?: number;
+  end?: number;
+}
+
+export const EXPORT_FORMATS: Record<
+  ExportFormat,
+  { label: string; extension: string; type: string }
+> = {
+  json: { label: 'Full backup (JSON)', extension: 'json', type: 'application/json' },
+  'pages-csv': { label: 'Pages (CSV)', extension: 'pages.csv', type: 'text/csv' },
+  'events-csv': { label: 'Events (CSV)', extension: 'events.csv', type: 'text/csv' },
+  'events-ndjson': {
+    label: 'Events (NDJSON)',
+    extension: 'events.ndjson',
+    type: 'application/x-ndjson',
+  },
+  'daily-csv': {
+    label: 'Daily summary by domain (CSV)',
+    extension: 'daily.csv',
+    type: 'text/csv',
+  },
+  'categories-csv': {
+    label: 'Daily summary by category (CSV)',
+    extension: 'categories.csv',
+    type: 'text/csv',
+  },
+};
+
+export function downloadFile(
+  content: BlobPart[],
+  type: string,
+  filename: string
+) {
+  const blob = new Blob(content, { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// Rows of a backup table sent per IMPORT_CHUNK message
+const IMPORT_CHUNK_SIZE = 500;
+
+// Fetches chunk by chunk so large histories never block the page or one message
+async function collectChunks(
+  fetchChunk: (cursor: number | null) => Promise<ExportChunk>
+) {
+  const parts: string[] = [];
+  let cursor: number | null = null;
+
+  do {
+    const response: ExportChunk = await fetchChunk(cursor);
+    parts.push(response.chunk);
+    cursor = response.cursor;
+  } while (cursor !== null);
+
+  return parts;
+}
+
+// Assembles the backup file around each table's rows, in the layout of EXPORT_DATA
+async function collectBackup(start?: number, end?: number) {
+  const parts = [
+    `{"version":${JSON.stringify(EXPORT_VERSION)},"exportDate":${JSON.stringify(new Date().toISOString())}`,
+  ];
+
+  for (const table of BACKUP_TABLES) {
+    const chunks = await collectChunks((cursor) =>
+      sendMessage('EXPORT_BACKUP_CHUNK', { table, start, end, cursor })
+    );
+    parts.push(`,"${table}":[`, chunks.filter(Boolean).join(','), ']');
+  }
+
+  parts.push('}');
+  return parts;
+}
+
+export async function exportData(options: ExportOptions = { format: 'json' }) {
+  const { format, start, end } = options;
+  const { extension, type } = EXPORT_FORMATS[format];
+  const filename = `activity-analytics-${getDayKey(Date.now())}.${extension}`;
+
+  if (format === 'json') {
+    downloadFile(await collectBackup(start, end), type, filename);
+    return;
+  }
+
+  const parts = await collectChunks((cursor) =>
+    sendMessage('EXPORT_CHUNK', { format, start, end, cursor })
+  );
+  downloadFile(parts, type, filename);
+}
+
+/**
+ * Restores a parsed backup file table by table, so no message carries the whole
+ * history. A dry run only counts what the import would do.
+ */
+export async function importBackup(
+  backup: Record<string, unknown>,
+  mode: ImportMode,
+  dryRun = false
+): Promise<ImportSummary> {
+  const { version, exportDate } = backup;
+  if (typeof version !== 'string' || typeof exportDate !== 'string') {
+    throw new Error('Backup has no version or export date');
+  }
+
+  const { importId } = await sendMessage('IMPORT_START', {
+    version,
+    exportDate,
+    mode,
+    dryRun,
+  });
+
+  try {
+    for (const table of BACKUP_TABLES) {
+      const rows = backup[table] ?? (table === 'dailyActivity' ? [] : undefined);
+      if (!Array.isArray(rows)) throw new Error(`${table} must be an array`);
+
+      for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+        await sendMessage('IMPORT_CHUNK', {
+          importId,
+          table,
+          rows: rows.slice(i, i + IMPORT_CHUNK_SIZE),
+        });
+      }
+    }
+  } catch (error) {
+    // Lets the background resume tracking; the rows already written stay
+    await sendMessage('IMPORT_FINISH', { importId }).catch(() => undefined);
+    throw error;
+  }
+
+  return sendMessage('IMPORT_FINISH', { importId });
+}
@@ -1,29 +1,24 @@
-export interface DomainStat {
-  domain: string
-  totalTime: number
-  pageCount: number
-  visitCount: number
-}
+export type {
+  DomainStats as DomainStat,
+  PageStats as Tab,
+  RangeStats,
+  TabStats,
+} from '../../../shared/types/interfaces'
 
-export interface TabStats {
-  url: string
-  domain: string
-  activeTime: number
-  lastScroll: number
-  keydownCount: number
-  lastClick: {
-    tag: string
-    id: string
-    classes: string
-    x: number
-    y: number
-  } | null
-}
+import type {
+  CategoryStats,
+  DomainStats,
+  PageStats,
+  TabStats,
+} from '../../../shared/types/interfaces'
+
+export type ViewMode = 'day' | 'average' | 'all-time'
 
 export interface Stats {
   todayTime: number
   isTrackingEnabled: boolean
-  topDomains: DomainStat[]
+  topDomains: DomainStats[]
+  categories: CategoryStats[]
   currentTab: TabStats | null
-  groupedTabs: Record<string, DomainStat[]>
+  groupedTabs: Record<string, PageStats[]>
 }
@@ -0,0 +1,40 @@
+import { useState, useEffect, useCallback } from 'preact/hooks';
+import { sendMessage } from '../../../shared/utils/messaging';
+import { DEFAULT_SETTINGS } from '../../../shared/constants/settings';
+import type { ExtensionSettings } from '../../../shared/types/settings';
+
+export type UpdateSetting = <K extends keyof ExtensionSettings>(
+  key: K,
+  value: ExtensionSettings[K]
+) => Promise<void>;
+
+export function useSettings() {
+  const [settings, setSettings] = useState<ExtensionSettings>(DEFAULT_SETTINGS);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    sendMessage('GET_SETTINGS')
+      .then((response) => setSettings(response.settings))
+      .catch((error) => console.error('Failed to load settings:', error));
+  }, []);
+
+  const updateSetting = useCallback<UpdateSetting>(async (key, value) => {
+    let previous: ExtensionSettings | undefined;
+    setSettings((current) => {
+      previous = current;
+      return { ...current, [key]: value };
+    });
+
+    try {
+      const response = await sendMessage('UPDATE_SETTINGS', { [key]: value });
+      setSettings(response.settings);
+      setError(null);
+    } catch (error) {
+      console.error(`Failed to update ${key}:`, error);
+      setError((error as Error).message);
+      if (previous) setSettings(previous); // Revert on error
+    }
+  }, []);
+
+  return { settings, updateSetting, error };
+}
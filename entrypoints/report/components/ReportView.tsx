@@ -0,0 +1,232 @@
+import type { Report } from '../../../shared/types/interfaces';
+import { CATEGORY_LABELS } from '../../../shared/constants/categories';
+import { parseDayKey } from '../../../shared/utils/date-utils';
+import { formatFullTime, formatTime } from '../../../shared/utils/time';
+
+const BUSIEST_DAYS = 3;
+
+interface ReportViewProps {
+  report: Report;
+}
+
+export const formatPeriod = (report: Report) =>
+  report.period === 'month'
+    ? new Date(report.start).toLocaleDateString(undefined, {
+        month: 'long',
+        year: 'numeric',
+      })
+    : `Week of ${new Date(report.start).toLocaleDateString(undefined, {
+        day: 'numeric',
+        month: 'long',
+        year: 'numeric',
+      })}`;
+
+const Change = ({ current, previous }: { current: number; previous: number }) => {
+  if (previous === 0) {
+    return <span>{current > 0 ? 'new' : '—'}</span>;
+  }
+
+  const percent = Math.round(((current - previous) / previous) * 100);
+  return (
+    <span class={percent > 0 ? 'change-up' : percent < 0 ? 'change-down' : ''}>
+      {percent > 0 ? '+' : ''}
+      {percent}%
+    </span>
+  );
+};
+
+const ReportView = ({ report }: ReportViewProps) => {
+  const activeDays = report.days.filter((day) => day.activeTime > 0).length;
+  const busiestDays = [...report.days]
+    .filter((day) => day.activeTime > 0)
+    .sort((a, b) => b.activeTime - a.activeTime)
+    .slice(0, BUSIEST_DAYS);
+  const busiestDates = new Set(busiestDays.map((day) => day.date));
+  const maxDay = Math.max(1, ...report.days.map((day) => day.activeTime));
+  const maxHour = Math.max(1, ...report.hours);
+  const busiestHour = report.hours.indexOf(Math.max(...report.hours));
+
+  const weekday = (date: string) =>
+    new Date(parseDayKey(date)).toLocaleDateString(undefined, {
+      weekday: report.period === 'week' ? 'short' : undefined,
+      day: 'numeric',
+    });
+
+  return (
+    <div>
+      <header class='report-header'>
+        <h1>{formatPeriod(report)}</h1>
+        <p>Generated {new Date(report.generatedAt).toLocaleString()}</p>
+      </header>
+
+      <div class='report-cards'>
+        <div class='report-card'>
+          <strong>{formatTime(report.totalActiveTime)}</strong>
+          <span>
+            Active time{' '}
+            <Change
+              current={report.totalActiveTime}
+              previous={report.previousActiveTime}
+            />
+          </span>
+        </div>
+        <div class='report-card'>
+          <strong>{formatTime(report.totalActiveTime / Math.max(activeDays, 1))}</strong>
+          <span>Per active day</span>
+        </div>
+        <div class='report-card'>
+          <strong>{report.sessionCount}</strong>
+          <span>Sessions</span>
+        </div>
+        <div class='report-card'>
+          <strong>{report.newDomains.length}</strong>
+          <span>New sites</span>
+        </div>
+      </div>
+
+      <section class='report-section'>
+        <h2>Top Sites</h2>
+        {report.topDomains.length === 0 ? (
+          <p class='report-empty'>No activity in this period</p>
+        ) : (
+          <table class='report-table'>
+            <thead>
+              <tr>
+                <th>Site</th>
+                <th class='numeric'>Time</th>
+                <th class='numeric'>Previous</th>
+                <th class='numeric'>Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.topDomains.map((domain) => (
+                <tr key={domain.domain}>
+                  <td>{domain.domain}</td>
+                  <td class='numeric'>{formatFullTime(domain.activeTime)}</td>
+                  <td class='numeric'>
+                    {formatFullTime(domain.previousActiveTime)}
+                  </td>
+                  <td class='numeric'>
+                    <Change
+                      current={domain.activeTime}
+                      previous={domain.previousActiveTime}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {report.categories.length > 0 && (
+        <section class='report-section'>
+          <h2>Categories</h2>
+          <table class='report-table'>
+            <thead>
+              <tr>
+                <th>Category</th>
+                <th class='numeric'>Time</th>
+                <th class='numeric'>Previous</th>
+                <th class='numeric'>Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.categories.map((entry) => (
+                <tr key={entry.category}>
+                  <td>{CATEGORY_LABELS[entry.category]}</td>
+                  <td class='numeric'>{formatFullTime(entry.activeTime)}</td>
+                  <td class='numeric'>
+                    {formatFullTime(entry.previousActiveTime)}
+                  </td>
+                  <td class='numeric'>
+                    <Change
+                      current={entry.activeTime}
+                      previous={entry.previousActiveTime}
+                    />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <section class='report-section'>
+        <h2>Busiest Days</h2>
+        <div class='report-bars'>
+          {report.days.map((day) => (
+            <div
+              key={day.date}
+              class={`report-bar ${busiestDates.has(day.date) ? 'highlight' : ''}`}
+              title={`${day.date}: ${formatFullTime(day.activeTime)}`}
+            >
+              <div style={{ height: `${(day.activeTime / maxDay) * 100}%` }} />
+              {weekday(day.date)}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section class='report-section'>
+        <h2>Busiest Hours</h2>
+        {report.hours.every((time) => time === 0) ? (
+          <p class='report-empty'>No focus events in this period</p>
+        ) : (
+          <div class='report-bars'>
+            {report.hours.map((time, hour) => (
+              <div
+                key={hour}
+                class={`report-bar ${hour === busiestHour ? 'highlight' : ''}`}
+                title={`${hour}:00: ${formatFullTime(time)}`}
+              >
+                <div style={{ height: `${(time / maxHour) * 100}%` }} />
+                {hour}
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section class='report-section'>
+        <h2>Longest Focus Stretches</h2>
+        {report.longestStretches.length === 0 ? (
+          <p class='report-empty'>No focus events in this period</p>
+        ) : (
+          <table class='report-table'>
+            <tbody>
+              {report.longestStretches.map((stretch) => (
+                <tr key={stretch.start}>
+                  <td>{stretch.domain}</td>
+                  <td>{new Date(stretch.start).toLocaleString()}</td>
+                  <td class='numeric'>{formatFullTime(stretch.duration)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <section class='report-section'>
+        <h2>New Sites</h2>
+        {report.newDomains.length === 0 ? (
+          <p class='report-empty'>No sites visited for the first time</p>
+        ) : (
+          <table class='report-table'>
+            <tbody>
+              {report.newDomains.map((domain) => (
+                <tr key={domain.domain}>
+                  <td>{domain.domain}</td>
+                  <td>{new Date(domain.firstVisit).toLocaleDateString()}</td>
+                  <td class='numeric'>{formatFullTime(domain.activeTime)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default ReportView;
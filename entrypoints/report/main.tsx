@@ -0,0 +1,115 @@
+import { render } from 'preact';
+import { useEffect, useRef, useState } from 'preact/hooks';
+import { ChevronLeft, ChevronRight, Download } from 'lucide-react';
+import '../popup/style.css';
+import './style.css';
+import { sendMessage } from '../../shared/utils/messaging';
+import { addDays, addMonths, getDayKey } from '../../shared/utils/date-utils';
+import type { Report, ReportPeriod } from '../../shared/types/interfaces';
+import { downloadFile } from '../popup/utils/export';
+import ReportView, { formatPeriod } from './components/ReportView';
+
+/** The report as a standalone page: the rendered markup with every stylesheet inlined. */
+const toStandaloneHtml = (report: Report, content: HTMLElement) => {
+  const css = Array.from(document.styleSheets)
+    .flatMap((sheet) => Array.from(sheet.cssRules, (rule) => rule.cssText))
+    .join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8" />
+<title>Activity Report - ${formatPeriod(report)}</title>
+<style>${css}</style>
+</head>
+<body>
+<div class="report-page">${content.innerHTML}</div>
+</body>
+</html>`;
+};
+
+const ReportApp = () => {
+  const [period, setPeriod] = useState<ReportPeriod>('week');
+  const [date, setDate] = useState(Date.now());
+  const [report, setReport] = useState<Report | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setError(null);
+    sendMessage('GET_REPORT', { period, date })
+      .then(setReport)
+      .catch((err) => setError(err.message));
+  }, [period, date]);
+
+  const shift = (direction: number) => {
+    setDate(
+      period === 'week'
+        ? addDays(report?.start ?? date, 7 * direction)
+        : addMonths(report?.start ?? date, direction)
+    );
+  };
+
+  const handleSave = () => {
+    if (!report || !contentRef.current) return;
+
+    downloadFile(
+      [toStandaloneHtml(report, contentRef.current)],
+      'text/html',
+      `activity-report-${report.period}-${getDayKey(report.start)}.html`
+    );
+  };
+
+  return (
+    <div class='report-page'>
+      <div class='report-toolbar'>
+        <select
+          class='rule-select'
+          value={period}
+          onChange={(e) =>
+            setPeriod((e.target as HTMLSelectElement).value as ReportPeriod)
+          }
+        >
+          <option value='week'>Week</option>
+          <option value='month'>Month</option>
+        </select>
+        <button class='btn btn-secondary' onClick={() => shift(-1)}>
+          <ChevronLeft size={16} />
+        </button>
+        <button
+          class='btn btn-secondary'
+          onClick={() => shift(1)}
+          disabled={!!report && report.end > Date.now()}
+        >
+          <ChevronRight size={16} />
+        </button>
+        <div class='spacer' />
+        <button class='btn btn-primary' onClick={handleSave} disabled={!report}>
+          <Download size={16} />
+          Save as HTML
+        </button>
+      </div>
+
+      {error && <p class='error'>{error}</p>}
+
+      <div ref={contentRef}>
+        {report ? (
+          <ReportView report={report} />
+        ) : (
+          !error && <p class='loading'>Loading report...</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const initApp = () => {
+  const appElement = document.getElementById('app');
+  if (appElement) render(<ReportApp />, appElement);
+};
+
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', initApp);
+} else {
+  initApp();
+}
@@ -1,14 +1,29 @@
-import { formatBadgeTime, formatFullTime } from "../../entrypoints/popup/utils/time";
+import { formatBadgeTime, formatFullTime } from "../../shared/utils/time";
+import type { LimitStatus } from "../../shared/types/interfaces";
+import type { BadgeMode } from "../../shared/types/settings";
+import { TrackingStateStore, type TrackingState } from "./tracking-state";
+
+const BADGE_COLORS = {
+  normal: '#4CAF50',
+  warning: '#FF9800',
+  exceeded: '#F44336'
+};
 
 export class BadgeManager {
   private static instance: BadgeManager;
-  private updateInterval?: number;
   private isEnabled = true;
   private currentTabId?: number;
   private tabStartTimes = new Map<number, number>();
   private currentTabTotalTime = 0;
   private currentSessionTime = 0;
   private currentTabUrl?: string;
+  private mode: BadgeMode = 'page';
+  private todayTime = 0;
+  private todayTimeAt = 0;
+  private limitStatus: LimitStatus | null = null;
+  private limitStatusAt = 0;
+  // Snapshots are only counted on while the focused tab is accruing active time
+  private isCounting = false;
 
   static getInstance(): BadgeManager {
     if (!BadgeManager.instance) {
@@ -22,10 +37,6 @@ export class BadgeManager {
   }
 
   private init() {
-    this.updateInterval = setInterval(() => {
-      this.updateBadge();
-    }, 1000);
-
     chrome.tabs.onActivated.addListener((activeInfo) => {
       this.handleTabChange(activeInfo.tabId);
     });
@@ -45,10 +56,26 @@ export class BadgeManager {
       this.tabStartTimes.set(tabId, now);
       this.currentSessionTime = 0;
       this.currentTabTotalTime = 0;
+      this.limitStatus = null;
+      this.persist();
       this.updateBadge();
     }
   }
 
+  private persist() {
+    TrackingStateStore.getInstance().update({
+      badgeTabId: this.currentTabId,
+      badgeStartTimes: Array.from(this.tabStartTimes)
+    });
+  }
+
+  /** Picks up the badge timers of a worker that was suspended. */
+  public restore(state: TrackingState) {
+    this.currentTabId = state.badgeTabId;
+    this.tabStartTimes = new Map(state.badgeStartTimes);
+    this.updateBadge();
+  }
+
   private async updateBadge() {
     if (!this.isEnabled || !this.currentTabId) {
       await this.clearBadge();
@@ -71,16 +98,26 @@ export class BadgeManager {
       }
 
       const totalTimeOnPage = this.currentTabTotalTime + this.currentSessionTime;
+      const todayTime = this.getTodayTime(currentTime);
+
+      const badgeTime = {
+        page: totalTimeOnPage,
+        session: this.currentSessionTime,
+        today: todayTime
+      }[this.mode];
 
-      const badgeText = formatBadgeTime(totalTimeOnPage);
+      // Refreshed on state changes and by a 30s alarm, so seconds would only show stale values
+      const badgeText = badgeTime < 60000 ? '<1m' : formatBadgeTime(badgeTime);
 
       await chrome.action.setBadgeText({
         text: badgeText,
         tabId: this.currentTabId
       });
 
+      const limitUsed = this.getLimitUsed(currentTime);
+
       await chrome.action.setBadgeBackgroundColor({
-        color: '#4CAF50'
+        color: this.getLimitColor(limitUsed)
       });
 
       const tab = await chrome.tabs.get(this.currentTabId);
@@ -89,8 +126,12 @@ export class BadgeManager {
         const formattedTotal = formatFullTime(totalTimeOnPage);
         const formattedSession = formatFullTime(this.currentSessionTime);
 
+        const limitLine = this.limitStatus
+          ? `\nDaily limit: ${formatFullTime(limitUsed)} of ${formatFullTime(this.limitStatus.limitMs)}`
+          : '';
+
         await chrome.action.setTitle({
-          title: `Activity Analytics\n${domain}\nTotal: ${formattedTotal}\nThis session: ${formattedSession}`,
+          title: `Activity Analytics\n${domain}\nTotal: ${formattedTotal}\nThis session: ${formattedSession}\nToday: ${formatFullTime(todayTime)}${limitLine}`,
           tabId: this.currentTabId
         });
       }
@@ -99,6 +140,22 @@ export class BadgeManager {
     }
   }
 
+  private getTodayTime(now: number): number {
+    return this.todayTime + (this.isCounting ? now - this.todayTimeAt : 0);
+  }
+
+  private getLimitUsed(now: number): number {
+    if (!this.limitStatus) return 0;
+    return this.limitStatus.usedMs + (this.isCounting ? now - this.limitStatusAt : 0);
+  }
+
+  private getLimitColor(used: number): string {
+    if (!this.limitStatus) return BADGE_COLORS.normal;
+    if (used >= this.limitStatus.limitMs) return BADGE_COLORS.exceeded;
+    if (used >= this.limitStatus.warningMs) return BADGE_COLORS.warning;
+    return BADGE_COLORS.normal;
+  }
+
   private extractDomain(url: string): string {
     try {
       const urlObj = new URL(url);
@@ -117,6 +174,11 @@ export class BadgeManager {
     }
   }
 
+  /** Redraws the badge from the current timers; driven by the badge-refresh job. */
+  public refresh() {
+    return this.updateBadge();
+  }
+
   public enable() {
     this.isEnabled = true;
     this.updateBadge();
@@ -135,9 +197,21 @@ export class BadgeManager {
     }
   }
 
+  public setMode(mode: BadgeMode) {
+    this.mode = mode;
+    this.updateBadge();
+  }
+
+  /** Snapshot of today's active time; the badge counts on from it while active time accrues. */
+  public setTodayTime(todayTime: number) {
+    this.todayTime = todayTime;
+    this.todayTimeAt = Date.now();
+  }
+
   public resetTabTime(tabId: number) {
     this.tabStartTimes.set(tabId, Date.now());
     this.currentSessionTime = 0;
+    this.persist();
 
     if (tabId === this.currentTabId) {
       this.updateBadge();
@@ -152,16 +226,38 @@ export class BadgeManager {
     }
   }
 
+  /** Snapshot of the current tab's daily limit, counted on like the today time; null without one. */
+  public setLimitStatus(tabId: number, status: LimitStatus | null) {
+    if (tabId === this.currentTabId) {
+      this.limitStatus = status;
+      this.limitStatusAt = Date.now();
+      this.updateBadge();
+    }
+  }
+
+  /** Starts or stops counting on from the snapshots, as active time starts or stops accruing. */
+  public setCounting(counting: boolean) {
+    if (counting === this.isCounting) return;
+
+    // Keep what was counted so far; nothing accrues while stopped
+    const now = Date.now();
+    this.todayTime = this.getTodayTime(now);
+    this.todayTimeAt = now;
+    if (this.limitStatus) {
+      this.limitStatus = { ...this.limitStatus, usedMs: this.getLimitUsed(now) };
+    }
+    this.limitStatusAt = now;
+
+    this.isCounting = counting;
+    this.updateBadge();
+  }
+
   public updateCurrentTabTotalTime(totalTime: number) {
     this.currentTabTotalTime = totalTime;
     this.updateBadge();
   }
 
   public cleanup() {
-    if (this.updateInterval) {
-      clearInterval(this.updateInterval);
-      this.updateInterval = undefined;
-    }
     this.clearBadge();
     this.tabStartTimes.clear();
   }
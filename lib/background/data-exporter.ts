@@ -0,0 +1,234 @@
+import { Dexie } from 'dexie';
+import type { DailyActivity, Event, Page, Session } from '../../shared/types/database';
+import type { BackupChunkRequest, ExportChunk, ExportChunkRequest } from '../../shared/types/interfaces';
+import type { Category } from '../../shared/types/settings';
+import { resolveCategory } from '../../shared/constants/categories';
+import { addDays, getDayKey, getStartOfDay, getStartOfNextDay, parseDayKey } from '../../shared/utils/date-utils';
+import { toCsvRow } from '../../shared/utils/csv';
+
+interface AnalyticsDB extends Dexie {
+  pages: Dexie.Table<Page, number>;
+  events: Dexie.Table<Event, number>;
+  sessions: Dexie.Table<Session, number>;
+  daily_activity: Dexie.Table<DailyActivity, number>;
+}
+
+const CHUNK_SIZE = 500;
+const DAYS_PER_CHUNK = 31;
+
+const PAGE_HEADERS = ['id', 'url', 'domain', 'category', 'title', 'first_visit', 'last_visit', 'active_ms', 'passive_ms', 'visible_ms', 'visit_count'];
+const EVENT_HEADERS = ['id', 'timestamp', 'type', 'url', 'domain', 'session_id', 'visit_id', 'data'];
+const DAILY_HEADERS = ['date', 'domain', 'category', 'active_ms', 'passive_ms', 'visible_ms', 'pages'];
+const CATEGORY_HEADERS = ['date', 'category', 'active_ms', 'passive_ms', 'visible_ms', 'domains'];
+
+const toIso = (timestamp: number) => new Date(timestamp).toISOString();
+
+export class DataExporter {
+  private static instance: DataExporter;
+  private db: AnalyticsDB;
+
+  constructor(db: AnalyticsDB) {
+    this.db = db;
+  }
+
+  static getInstance(db?: AnalyticsDB): DataExporter {
+    if (!DataExporter.instance && db) {
+      DataExporter.instance = new DataExporter(db);
+    }
+    return DataExporter.instance;
+  }
+
+  /**
+   * Produces one slice of an export. Callers keep passing the returned cursor back
+   * until it is null, so neither side holds a whole history in one message.
+   * Categories are resolved with the overrides current at export time.
+   */
+  async exportChunk(request: ExportChunkRequest, categoryOverrides: Record<string, Category> = {}): Promise<ExportChunk> {
+    const start = request.start ?? 0;
+    const end = request.end ?? Number.MAX_SAFE_INTEGER;
+    const cursor = request.cursor ?? null;
+
+    if (start >= end) {
+      throw new Error('Export range requires start < end');
+    }
+
+    switch (request.format) {
+      case 'pages-csv':
+        return this.exportPages(start, end, cursor, categoryOverrides);
+      case 'events-csv':
+        return this.exportEvents(start, end, cursor, false);
+      case 'events-ndjson':
+        return this.exportEvents(start, end, cursor, true);
+      case 'daily-csv':
+        return this.exportDaily(start, end, cursor, categoryOverrides, false);
+      case 'categories-csv':
+        return this.exportDaily(start, end, cursor, categoryOverrides, true);
+    }
+  }
+
+  /**
+   * Produces one slice of a backup table as comma-separated JSON rows. The caller
+   * wraps the slices into the backup file, so the format matches EXPORT_DATA.
+   * A range keeps the rows that overlap it, like the CSV exports.
+   */
+  async exportBackupChunk(request: BackupChunkRequest): Promise<ExportChunk> {
+    const start = request.start ?? 0;
+    const end = request.end ?? Number.MAX_SAFE_INTEGER;
+
+    if (start >= end) {
+      throw new Error('Export range requires start < end');
+    }
+
+    const { db } = this;
+    const firstDay = getDayKey(start);
+    const lastDay = getDayKey(Math.min(end, getStartOfNextDay(Date.now())) - 1);
+
+    const select = (): Dexie.Collection<{ id?: number }, number> => {
+      switch (request.table) {
+        case 'pages':
+          return db.pages.where(':id').above(request.cursor ?? 0)
+            .filter(page => page.lastVisit >= start && page.firstVisit < end);
+        case 'events':
+          return db.events.where(':id').above(request.cursor ?? 0)
+            .filter(event => event.timestamp >= start && event.timestamp < end);
+        case 'sessions':
+          return db.sessions.where(':id').above(request.cursor ?? 0)
+            .filter(session => (session.endTime ?? Date.now()) >= start && session.startTime < end);
+        case 'dailyActivity':
+          return db.daily_activity.where(':id').above(request.cursor ?? 0)
+            .filter(row => row.date >= firstDay && row.date <= lastDay);
+      }
+    };
+
+    const rows = await select()
+      .limit(CHUNK_SIZE)
+      .toArray();
+
+    return {
+      chunk: rows.map(row => JSON.stringify(row)).join(','),
+      cursor: rows.length === CHUNK_SIZE ? rows[rows.length - 1].id! : null
+    };
+  }
+
+  private async exportPages(start: number, end: number, cursor: number | null, categoryOverrides: Record<string, Category>): Promise<ExportChunk> {
+    const pages = await this.db.pages
+      .where(':id').above(cursor ?? 0)
+      .filter(page => page.lastVisit >= start && page.firstVisit < end)
+      .limit(CHUNK_SIZE)
+      .toArray();
+
+    const rows = pages.map(page => toCsvRow([
+      page.id,
+      page.url,
+      page.domain,
+      resolveCategory(page.domain, categoryOverrides),
+      page.title,
+      toIso(page.firstVisit),
+      toIso(page.lastVisit),
+      page.totalActiveTime,
+      page.totalPassiveTime || 0,
+      page.totalVisibleTime || 0,
+      page.visitCount
+    ]));
+
+    return {
+      chunk: (cursor === null ? toCsvRow(PAGE_HEADERS) : '') + rows.join(''),
+      cursor: pages.length === CHUNK_SIZE ? pages[pages.length - 1].id! : null
+    };
+  }
+
+  private async exportEvents(start: number, end: number, cursor: number | null, ndjson: boolean): Promise<ExportChunk> {
+    const events = await this.db.events
+      .where(':id').above(cursor ?? 0)
+      .filter(event => event.timestamp >= start && event.timestamp < end)
+      .limit(CHUNK_SIZE)
+      .toArray();
+
+    const pageIds = Array.from(new Set(events.flatMap(event => event.pageId ?? [])));
+    const pages = new Map<number, Page>();
+    (await this.db.pages.bulkGet(pageIds)).forEach(page => {
+      if (page) pages.set(page.id!, page);
+    });
+
+    const lines = events.map(event => {
+      const page = event.pageId === undefined ? undefined : pages.get(event.pageId);
+
+      if (ndjson) {
+        return JSON.stringify({ ...event, url: page?.url ?? null, domain: page?.domain ?? null }) + '\n';
+      }
+
+      return toCsvRow([
+        event.id,
+        toIso(event.timestamp),
+        event.type,
+        page?.url,
+        page?.domain,
+        event.sessionId,
+        event.visitId,
+        event.data === undefined ? '' : JSON.stringify(event.data)
+      ]);
+    });
+
+    const header = cursor === null && !ndjson ? toCsvRow(EVENT_HEADERS) : '';
+
+    return {
+      chunk: header + lines.join(''),
+      cursor: events.length === CHUNK_SIZE ? events[events.length - 1].id! : null
+    };
+  }
+
+  /**
+   * One row per day and domain, or per day and category, walked in windows of
+   * DAYS_PER_CHUNK days. The last column counts the rows folded into each line.
+   */
+  private async exportDaily(
+    start: number,
+    end: number,
+    cursor: number | null,
+    categoryOverrides: Record<string, Category>,
+    byCategory: boolean
+  ): Promise<ExportChunk> {
+    const header = cursor === null ? toCsvRow(byCategory ? CATEGORY_HEADERS : DAILY_HEADERS) : '';
+    const rangeEnd = Math.min(end, getStartOfNextDay(Date.now()));
+
+    let windowStart = cursor;
+    if (windowStart === null) {
+      const first = await this.db.daily_activity.orderBy('date').first();
+      if (!first) return { chunk: header, cursor: null };
+
+      windowStart = Math.max(getStartOfDay(start), parseDayKey(first.date));
+    }
+
+    const windowEnd = Math.min(addDays(windowStart, DAYS_PER_CHUNK), rangeEnd);
+    if (windowStart >= windowEnd) return { chunk: header, cursor: null };
+
+    const rows = await this.db.daily_activity
+      .where('date')
+      .between(getDayKey(windowStart), getDayKey(windowEnd - 1), true, true)
+      .toArray();
+
+    const totals = new Map<string, { date: string, group: string, active: number, passive: number, visible: number, count: number }>();
+    rows.forEach(row => {
+      const group = byCategory ? resolveCategory(row.domain, categoryOverrides) : row.domain;
+      const key = `${row.date}|${group}`;
+      const total = totals.get(key) || { date: row.date, group, active: 0, passive: 0, visible: 0, count: 0 };
+
+      total.active += row.activeTime;
+      total.passive += row.passiveTime || 0;
+      total.visible += row.visibleTime || 0;
+      total.count++;
+      totals.set(key, total);
+    });
+
+    const lines = Array.from(totals.values())
+      .sort((a, b) => a.date.localeCompare(b.date) || b.active - a.active)
+      .map(total => toCsvRow(byCategory
+        ? [total.date, total.group, total.active, total.passive, total.visible, total.count]
+        : [total.date, total.group, resolveCategory(total.group, categoryOverrides), total.active, total.passive, total.visible, total.count]));
+
+    return {
+      chunk: header + lines.join(''),
+      cursor: windowEnd < rangeEnd ? windowEnd : null
+    };
+  }
+}
@@ -0,0 +1,423 @@
+import { Dexie } from 'dexie';
+import type { DailyActivity, Event, InteractionSummary, Page, Session } from '../../shared/types/database';
+import type { BackupTable, DailyActivityData, EventData, ImportCounts, ImportMode, ImportSummary, PageData, SessionData } from '../../shared/types/interfaces';
+import type { ImportStartRequest } from '../../shared/types/messages';
+import { EXPORT_VERSION } from '../../shared/constants/constants';
+
+interface AnalyticsDB extends Dexie {
+  pages: Dexie.Table<Page, number>;
+  events: Dexie.Table<Event, number>;
+  sessions: Dexie.Table<Session, number>;
+  daily_activity: Dexie.Table<DailyActivity, number>;
+  interaction_summaries: Dexie.Table<InteractionSummary, number>;
+}
+
+const SUPPORTED_VERSIONS = ['1.0', '1.1'];
+const MAX_REPORTED_ERRORS = 5;
+// An import that hears nothing for this long is dropped, e.g. after its page closed
+const JOB_TIMEOUT_MS = 60 * 1000;
+
+type Check = [field: string, ok: (value: any) => boolean];
+
+const isNumber = (value: any) => Number.isFinite(value);
+const isString = (value: any) => typeof value === 'string';
+const optional = (check: (value: any) => boolean) => (value: any) => value === undefined || value === null || check(value);
+
+const ROW_CHECKS: Record<BackupTable, Check[]> = {
+  pages: [
+    ['id', isNumber],
+    ['url', isString],
+    ['domain', isString],
+    ['totalActiveTime', isNumber],
+    ['totalPassiveTime', optional(isNumber)],
+    ['totalVisibleTime', optional(isNumber)],
+    ['visitCount', isNumber],
+    ['firstVisit', isNumber],
+    ['lastVisit', isNumber]
+  ],
+  events: [
+    // Session events have no page
+    ['pageId', optional(isNumber)],
+    ['sessionId', isString],
+    ['timestamp', isNumber],
+    ['type', isString]
+  ],
+  sessions: [
+    ['sessionId', isString],
+    ['startTime', isNumber],
+    ['endTime', optional(isNumber)]
+  ],
+  dailyActivity: [
+    ['pageId', isNumber],
+    ['domain', isString],
+    ['date', (value: any) => isString(value) && /^\d{4}-\d{2}-\d{2}$/.test(value)],
+    ['activeTime', isNumber],
+    ['passiveTime', optional(isNumber)],
+    ['visibleTime', optional(isNumber)]
+  ]
+};
+
+/**
+ * Checks that a backup header names a version this extension can read.
+ */
+export function validateBackupVersion(version: string) {
+  if (!SUPPORTED_VERSIONS.includes(version)) {
+    const newer = parseFloat(version) > parseFloat(EXPORT_VERSION);
+    throw new Error(newer
+      ? `Backup version ${version} is newer than this extension supports (${EXPORT_VERSION}); update the extension first`
+      : `Unsupported backup version: ${version}`);
+  }
+}
+
+/**
+ * Checks one chunk of a backup table. `offset` is the index of the first row
+ * within the table, so errors point at the row in the file.
+ * Throws with the first few problems found.
+ */
+export function validateBackupRows(table: BackupTable, rows: unknown[], offset = 0) {
+  const errors: string[] = [];
+
+  rows.forEach((row, i) => {
+    const index = offset + i;
+
+    if (typeof row !== 'object' || row === null) {
+      errors.push(`${table}[${index}] must be an object`);
+      return;
+    }
+
+    ROW_CHECKS[table].forEach(([field, ok]) => {
+      if (!ok((row as Record<string, unknown>)[field])) errors.push(`${table}[${index}].${field} is invalid`);
+    });
+  });
+
+  if (errors.length > 0) {
+    const extra = errors.length > MAX_REPORTED_ERRORS ? ` (and ${errors.length - MAX_REPORTED_ERRORS} more)` : '';
+    throw new Error(`Invalid backup: ${errors.slice(0, MAX_REPORTED_ERRORS).join('; ')}${extra}`);
+  }
+}
+
+const emptyCounts = (): ImportCounts => ({ added: 0, merged: 0, skipped: 0 });
+
+interface ImportJob {
+  id: string;
+  mode: ImportMode;
+  dryRun: boolean;
+  summary: ImportSummary;
+  // Rows received so far per table, for error messages
+  received: Record<BackupTable, number>;
+  // Backup page id -> local page id; a dry run hands out negative ids for pages it would add
+  pageIds: Map<number, number>;
+  // What a dry run would have written, so later chunks see it like the real import would
+  pendingPages: Map<string, number>;
+  pendingSessions: Set<string>;
+  pendingDaily: Set<string>;
+}
+
+export class DataImporter {
+  private static instance: DataImporter;
+  private db: AnalyticsDB;
+  private job: ImportJob | null = null;
+  private jobTimer?: ReturnType<typeof setTimeout>;
+  private replaceEndCallbacks: Array<() => void> = [];
+
+  constructor(db: AnalyticsDB) {
+    this.db = db;
+  }
+
+  static getInstance(db?: AnalyticsDB): DataImporter {
+    if (!DataImporter.instance && db) {
+      DataImporter.instance = new DataImporter(db);
+    }
+    return DataImporter.instance;
+  }
+
+  /**
+   * Begins restoring a backup that then arrives table by table through importChunk,
+   * pages first. `replace` wipes history here; `merge` folds the backup into it:
+   * pages are matched by URL with totals summed, and every pageId is remapped.
+   * A dry run only reads, counting what the import would do.
+   * Starting a new import abandons any unfinished one.
+   */
+  async startImport(header: ImportStartRequest): Promise<string> {
+    const { version, exportDate, mode, dryRun = false } = header;
+    const summary: ImportSummary = {
+      mode,
+      dryRun,
+      version,
+      exportDate,
+      pages: emptyCounts(),
+      events: emptyCounts(),
+      sessions: emptyCounts(),
+      dailyActivity: emptyCounts(),
+      removed: { pages: 0, events: 0, sessions: 0, dailyActivity: 0 }
+    };
+
+    // Set before any await so tracking counts as paused while the tables are emptied
+    const job: ImportJob = {
+      id: crypto.randomUUID(),
+      mode,
+      dryRun,
+      summary,
+      received: { pages: 0, events: 0, sessions: 0, dailyActivity: 0 },
+      pageIds: new Map(),
+      pendingPages: new Map(),
+      pendingSessions: new Set(),
+      pendingDaily: new Set()
+    };
+    this.setJob(job);
+
+    try {
+      validateBackupVersion(version);
+      if (mode === 'replace') await this.prepareReplace(summary, dryRun);
+    } catch (error) {
+      this.setJob(null);
+      throw error;
+    }
+
+    return job.id;
+  }
+
+  /** Applies one chunk of a table; each chunk is written in its own transaction. */
+  async importChunk(importId: string, table: BackupTable, rows: unknown[]) {
+    const job = this.getJob(importId);
+    this.setJob(job);
+
+    const { db } = this;
+    const apply = () => {
+      switch (table) {
+        case 'pages':
+          return this.importPages(job, rows as PageData[]);
+        case 'events':
+          return this.importEvents(job, rows as EventData[]);
+        case 'sessions':
+          return this.importSessions(job, rows as SessionData[]);
+        case 'dailyActivity':
+          return this.importDailyActivity(job, rows as DailyActivityData[]);
+      }
+    };
+
+    // A failed chunk ends the import; the page starts over rather than resuming halfway
+    try {
+      validateBackupRows(table, rows, job.received[table]);
+      job.received[table] += rows.length;
+
+      if (job.dryRun) {
+        await apply();
+      } else {
+        await db.transaction('rw', [db.pages, db.events, db.sessions, db.daily_activity], apply);
+      }
+    } catch (error) {
+      this.setJob(null);
+      throw error;
+    }
+  }
+
+  finishImport(importId: string): ImportSummary {
+    const job = this.getJob(importId);
+    this.setJob(null);
+    return job.summary;
+  }
+
+  /** Whether a running import has emptied the tables, so tracking must stay off until it ends. */
+  isReplacing(): boolean {
+    return !!this.job && this.job.mode === 'replace' && !this.job.dryRun;
+  }
+
+  /** Called once a replacing import ends, whether it finished, failed, timed out or was abandoned. */
+  onReplaceEnd(callback: () => void) {
+    this.replaceEndCallbacks.push(callback);
+  }
+
+  // Swaps the running job and restarts its timeout; passing the same job again keeps it alive
+  private setJob(job: ImportJob | null) {
+    const wasReplacing = this.isReplacing();
+
+    clearTimeout(this.jobTimer);
+    this.job = job;
+    if (job) {
+      this.jobTimer = setTimeout(() => {
+        console.warn(`Import ${job.id} timed out`);
+        this.setJob(null);
+      }, JOB_TIMEOUT_MS);
+    }
+
+    if (wasReplacing && !this.isReplacing()) {
+      this.replaceEndCallbacks.forEach(callback => {
+        try { callback(); }
+        catch (error) { console.error('Error in import end callback:', error); }
+      });
+    }
+  }
+
+  private getJob(importId: string): ImportJob {
+    if (this.job?.id !== importId) {
+      throw new Error('Import is no longer running; start it again');
+    }
+    return this.job;
+  }
+
+  private async prepareReplace(summary: ImportSummary, dryRun: boolean) {
+    const { db } = this;
+
+    summary.removed = {
+      pages: await db.pages.count(),
+      events: await db.events.count(),
+      sessions: await db.sessions.count(),
+      dailyActivity: await db.daily_activity.count()
+    };
+
+    if (!dryRun) {
+      // Summaries aren't part of a backup; imported events are summarized again by the next compaction
+      await db.transaction('rw', [db.pages, db.events, db.sessions, db.daily_activity, db.interaction_summaries], () => Promise.all([
+        db.pages.clear(),
+        db.events.clear(),
+        db.sessions.clear(),
+        db.daily_activity.clear(),
+        db.interaction_summaries.clear()
+      ]));
+    }
+  }
+
+  // A dry replace reads nothing: the real import would have emptied the tables first
+  private readsDb(job: ImportJob) {
+    return !(job.dryRun && job.mode === 'replace');
+  }
+
+  private async importPages(job: ImportJob, pages: PageData[]) {
+    const { db } = this;
+    const { summary } = job;
+    const now = Date.now();
+
+    for (const page of pages) {
+      const existing = this.readsDb(job) ? await db.pages.where('url').equals(page.url).first() : undefined;
+      const pendingId = job.pendingPages.get(page.url);
+
+      if (existing) {
+        if (!job.dryRun) {
+          await db.pages.update(existing.id!, {
+            totalActiveTime: existing.totalActiveTime + page.totalActiveTime,
+            totalPassiveTime: (existing.totalPassiveTime || 0) + (page.totalPassiveTime || 0),
+            totalVisibleTime: (existing.totalVisibleTime || 0) + (page.totalVisibleTime || 0),
+            visitCount: existing.visitCount + page.visitCount,
+            firstVisit: Math.min(existing.firstVisit, page.firstVisit),
+            lastVisit: Math.max(existing.lastVisit, page.lastVisit),
+            updatedAt: now
+          });
+        }
+        job.pageIds.set(page.id!, existing.id!);
+        summary.pages.merged++;
+      } else if (pendingId !== undefined) {
+        job.pageIds.set(page.id!, pendingId);
+        summary.pages.merged++;
+      } else if (job.dryRun) {
+        const newId = -(job.pendingPages.size + 1);
+        job.pendingPages.set(page.url, newId);
+        job.pageIds.set(page.id!, newId);
+        summary.pages.added++;
+      } else {
+        // Open intervals belong to the exporting browser and must not keep running here
+        const newId = await db.pages.add({
+          url: page.url,
+          domain: page.domain,
+          title: page.title || page.domain,
+          firstVisit: page.firstVisit,
+          lastVisit: page.lastVisit,
+          createdAt: page.firstVisit,
+          updatedAt: now,
+          totalActiveTime: page.totalActiveTime,
+          totalPassiveTime: page.totalPassiveTime || 0,
+          totalVisibleTime: page.totalVisibleTime || 0,
+          visitCount: page.visitCount
+        });
+        job.pageIds.set(page.id!, newId);
+        summary.pages.added++;
+      }
+    }
+  }
+
+  private async importEvents(job: ImportJob, rows: EventData[]) {
+    const events: Event[] = [];
+
+    rows.forEach(event => {
+      const pageId = event.pageId === undefined ? undefined : job.pageIds.get(event.pageId);
+      if (event.pageId !== undefined && pageId === undefined) {
+        job.summary.events.skipped++;
+        return;
+      }
+
+      const { id: _id, ...rest } = event;
+      events.push({ ...rest, pageId } as Event);
+    });
+
+    if (!job.dryRun) await this.db.events.bulkAdd(events);
+    job.summary.events.added += events.length;
+  }
+
+  private async importSessions(job: ImportJob, sessions: SessionData[]) {
+    const { db } = this;
+
+    for (const session of sessions) {
+      const existing = job.pendingSessions.has(session.sessionId)
+        || (this.readsDb(job) && await db.sessions.where('sessionId').equals(session.sessionId).first());
+      if (existing) {
+        job.summary.sessions.skipped++;
+        continue;
+      }
+
+      if (job.dryRun) {
+        job.pendingSessions.add(session.sessionId);
+      } else {
+        const { id: _id, ...rest } = session;
+        await db.sessions.add({ ...rest, endTime: session.endTime ?? session.startTime, isActive: false });
+      }
+      job.summary.sessions.added++;
+    }
+  }
+
+  private async importDailyActivity(job: ImportJob, rows: DailyActivityData[]) {
+    const { db } = this;
+    const { summary } = job;
+    const now = Date.now();
+
+    for (const row of rows) {
+      const pageId = job.pageIds.get(row.pageId);
+      if (pageId === undefined) {
+        summary.dailyActivity.skipped++;
+        continue;
+      }
+
+      const key = `${pageId}|${row.date}`;
+      const existing = this.readsDb(job) && pageId > 0
+        ? await db.daily_activity.where('[pageId+date]').equals([pageId, row.date]).first()
+        : undefined;
+
+      if (existing) {
+        if (!job.dryRun) {
+          await db.daily_activity.update(existing.id!, {
+            activeTime: existing.activeTime + row.activeTime,
+            passiveTime: (existing.passiveTime || 0) + (row.passiveTime || 0),
+            visibleTime: (existing.visibleTime || 0) + (row.visibleTime || 0),
+            updatedAt: now
+          });
+        }
+        summary.dailyActivity.merged++;
+      } else if (job.pendingDaily.has(key)) {
+        summary.dailyActivity.merged++;
+      } else if (job.dryRun) {
+        job.pendingDaily.add(key);
+        summary.dailyActivity.added++;
+      } else {
+        await db.daily_activity.add({
+          pageId,
+          domain: row.domain,
+          date: row.date,
+          activeTime: row.activeTime,
+          passiveTime: row.passiveTime || 0,
+          visibleTime: row.visibleTime || 0,
+          updatedAt: now
+        });
+        summary.dailyActivity.added++;
+      }
+    }
+  }
+}
@@ -0,0 +1,175 @@
+import { Dexie } from 'dexie';
+import type { Event, InteractionSummary, Meta } from '../../shared/types/database';
+import type { ClickData } from '../../shared/types/interfaces';
+import { CONST_EVENTS, INTERACTION_EVENTS } from '../../shared/constants/constants';
+import { getDayKey, getStartOfDay } from '../../shared/utils/date-utils';
+
+interface AnalyticsDB extends Dexie {
+  events: Dexie.Table<Event, number>;
+  interaction_summaries: Dexie.Table<InteractionSummary, number>;
+  meta: Dexie.Table<Meta, string>;
+}
+
+/** Highest event id already folded into a summary */
+const WATERMARK_KEY = 'compactedEventId';
+const BATCH_SIZE = 2000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CompactionResult {
+  folded: number;
+  deleted: number;
+}
+
+export interface PageInteractionMetrics {
+  scroll: number;
+  click: ClickData | null;
+  keydown: number;
+}
+
+const INTERACTION_TYPES: string[] = [...INTERACTION_EVENTS];
+
+const emptySummary = (pageId: number, date: string): InteractionSummary => ({
+  pageId,
+  date,
+  maxScrollDepth: 0,
+  clicks: 0,
+  keydowns: 0,
+  formSubmits: 0,
+  routeChanges: 0,
+  updatedAt: Date.now()
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isClickData = (value: Record<string, unknown>): value is Record<string, unknown> & ClickData =>
+  typeof value.tag === 'string' && typeof value.id === 'string' && typeof value.classes === 'string' &&
+  typeof value.x === 'number' && typeof value.y === 'number';
+
+function foldEvent(summary: InteractionSummary, event: Event) {
+  // L2 payloads are stored as the content script sent them, not as EventData
+  const raw: unknown = event.data;
+  const data = isRecord(raw) ? raw : {};
+
+  switch (event.type as string) {
+    case CONST_EVENTS.SCROLL_DEPTH:
+      summary.maxScrollDepth = Math.max(summary.maxScrollDepth, Number(data.value) || 0);
+      break;
+    case CONST_EVENTS.CLICK:
+      summary.clicks++;
+      if (isClickData(data) && event.timestamp >= (summary.lastClickAt ?? 0)) {
+        summary.lastClick = { tag: data.tag, id: data.id, classes: data.classes, x: data.x, y: data.y };
+        summary.lastClickAt = event.timestamp;
+      }
+      break;
+    case CONST_EVENTS.KEYDOWN:
+      summary.keydowns++;
+      break;
+    case CONST_EVENTS.FORM_INTERACTION:
+      if (data.interactionType === 'submit') summary.formSubmits++;
+      break;
+    case CONST_EVENTS.SPA_ROUTE_CHANGE:
+      summary.routeChanges++;
+      break;
+  }
+}
+
+export class EventCompactor {
+  private static instance: EventCompactor;
+  private db: AnalyticsDB;
+
+  constructor(db: AnalyticsDB) {
+    this.db = db;
+  }
+
+  static getInstance(db?: AnalyticsDB): EventCompactor {
+    if (!EventCompactor.instance && db) {
+      EventCompactor.instance = new EventCompactor(db);
+    }
+    return EventCompactor.instance;
+  }
+
+  /**
+   * Folds raw L2 events past the watermark into per-page-per-day summaries, then
+   * deletes folded rows older than `rawWindowDays`. Each batch advances the
+   * watermark in the same transaction, so an interrupted run never counts twice.
+   */
+  async compact(rawWindowDays: number): Promise<CompactionResult> {
+    const { db } = this;
+    let folded = 0;
+
+    while (true) {
+      const scanned = await db.transaction('rw', [db.events, db.interaction_summaries, db.meta], async () => {
+        const watermark = await this.getWatermark();
+        const batch = await db.events.where(':id').above(watermark).limit(BATCH_SIZE).toArray();
+        if (batch.length === 0) return 0;
+
+        const summaries = new Map<string, InteractionSummary>();
+        for (const event of batch) {
+          if (!INTERACTION_TYPES.includes(event.type) || event.pageId === undefined) continue;
+
+          const date = getDayKey(event.timestamp);
+          const key = `${event.pageId}|${date}`;
+          let summary = summaries.get(key);
+          if (!summary) {
+            summary = await db.interaction_summaries.where('[pageId+date]').equals([event.pageId, date]).first()
+              ?? emptySummary(event.pageId, date);
+            summaries.set(key, summary);
+          }
+
+          foldEvent(summary, event);
+          folded++;
+        }
+
+        const now = Date.now();
+        await db.interaction_summaries.bulkPut(Array.from(summaries.values(), summary => ({ ...summary, updatedAt: now })));
+        await db.meta.put({ key: WATERMARK_KEY, value: batch[batch.length - 1].id! });
+
+        return batch.length;
+      });
+
+      if (scanned < BATCH_SIZE) break;
+    }
+
+    const cutoff = getStartOfDay(Date.now()) - rawWindowDays * DAY_MS;
+    const watermark = await this.getWatermark();
+    const deleted = await db.events
+      .where('type').anyOf(INTERACTION_TYPES)
+      .and(event => event.timestamp < cutoff && event.id! <= watermark)
+      .delete();
+
+    if (folded > 0 || deleted > 0) {
+      console.log(`Compacted ${folded} interaction events, deleted ${deleted} raw rows`);
+    }
+
+    return { folded, deleted };
+  }
+
+  /** All-time metrics for a page: the summaries plus whatever hasn't been folded yet. */
+  async getPageMetrics(pageId: number): Promise<PageInteractionMetrics> {
+    const { db } = this;
+    const watermark = await this.getWatermark();
+
+    const pending = emptySummary(pageId, '');
+    const recent = await db.events.where(':id').above(watermark).and(event => event.pageId === pageId).toArray();
+    recent.forEach(event => {
+      if (INTERACTION_TYPES.includes(event.type)) foldEvent(pending, event);
+    });
+
+    const summaries = [...await db.interaction_summaries.where('pageId').equals(pageId).toArray(), pending];
+    const lastClick = summaries.reduce<InteractionSummary | null>((latest, summary) =>
+      summary.lastClick && (summary.lastClickAt ?? 0) >= (latest?.lastClickAt ?? 0) ? summary : latest, null);
+
+    return {
+      scroll: Math.max(...summaries.map(summary => summary.maxScrollDepth)),
+      click: lastClick?.lastClick ?? null,
+      keydown: summaries.reduce((total, summary) => total + summary.keydowns, 0)
+    };
+  }
+
+  /** Highest event id folded so far; raw interaction rows above it are the only record of those events. */
+  async getWatermark(): Promise<number> {
+    const value = (await this.db.meta.get(WATERMARK_KEY))?.value;
+    return typeof value === 'number' ? value : 0;
+  }
+}
@@ -0,0 +1,115 @@
+import { FOCUS_BYPASS_MINUTES } from '../../shared/constants/constants';
+import type { BlockReason } from '../../shared/types/interfaces';
+import { extractDomain, resolveDomainPattern } from '../../shared/utils/url-utils';
+import { LimitManager } from './limit-manager';
+
+const STORAGE_KEY = 'focusAllowances';
+const INTERSTITIAL_PATH = '/blocked.html';
+const MINUTE_MS = 60 * 1000;
+
+export interface FocusConfig {
+  enabled: boolean;
+  domains: string[];
+  startHour: number;
+  endHour: number;
+}
+
+/**
+ * Decides which navigations focus mode interrupts: listed domains during focus
+ * hours, and any domain whose daily limit is used up. A bypass lets a domain
+ * through for a few minutes; allowances live in chrome.storage.session so a
+ * restarted worker doesn't interrupt again right away.
+ */
+export class FocusGuard {
+  private static instance: FocusGuard;
+  private config: FocusConfig = { enabled: false, domains: [], startHour: 0, endHour: 0 };
+  /** Time until which each domain may be visited, keyed by hostname */
+  private allowances: Record<string, number> = {};
+  private loaded: Promise<void>;
+
+  static getInstance(): FocusGuard {
+    if (!FocusGuard.instance) {
+      FocusGuard.instance = new FocusGuard();
+    }
+    return FocusGuard.instance;
+  }
+
+  constructor() {
+    this.loaded = this.load();
+  }
+
+  setConfig(config: FocusConfig) {
+    this.config = config;
+  }
+
+  /** Why `url` should be interrupted right now, or null to let it through. */
+  async check(url: string, now = Date.now()): Promise<BlockReason | null> {
+    if (!this.config.enabled || !/^https?:/.test(url)) return null;
+
+    const domain = extractDomain(url);
+    await this.loaded;
+    if ((this.allowances[domain] ?? 0) > now) return null;
+
+    if (this.isFocusTime(now) && resolveDomainPattern(this.config.domains, domain)) {
+      return 'focus';
+    }
+
+    const limit = await LimitManager.getInstance().getStatus(domain);
+    if (limit && limit.usedMs >= limit.limitMs) {
+      return 'limit';
+    }
+
+    return null;
+  }
+
+  /** Lets `domain` through for FOCUS_BYPASS_MINUTES; returns when the allowance runs out. */
+  async allow(domain: string, now = Date.now()): Promise<number> {
+    await this.loaded;
+
+    const allowedUntil = now + FOCUS_BYPASS_MINUTES * MINUTE_MS;
+    this.allowances = Object.fromEntries(
+      Object.entries(this.allowances).filter(([, until]) => until > now)
+    );
+    this.allowances[domain] = allowedUntil;
+    await this.save();
+
+    return allowedUntil;
+  }
+
+  getInterstitialUrl(url: string, reason: BlockReason): string {
+    const params = new URLSearchParams({ url, reason });
+    return `${chrome.runtime.getURL(INTERSTITIAL_PATH)}?${params}`;
+  }
+
+  isInterstitial(url: string): boolean {
+    return url.startsWith(chrome.runtime.getURL(INTERSTITIAL_PATH));
+  }
+
+  private isFocusTime(now: number): boolean {
+    const { startHour, endHour } = this.config;
+    const hour = new Date(now).getHours();
+
+    if (startHour === endHour) return true;
+    // Hours such as 22 to 6 run past midnight
+    return startHour < endHour
+      ? hour >= startHour && hour < endHour
+      : hour >= startHour || hour < endHour;
+  }
+
+  private async load() {
+    try {
+      const stored = await chrome.storage.session.get(STORAGE_KEY);
+      this.allowances = { ...stored[STORAGE_KEY], ...this.allowances };
+    } catch (error) {
+      console.warn('Failed to load focus allowances:', error);
+    }
+  }
+
+  private async save() {
+    try {
+      await chrome.storage.session.set({ [STORAGE_KEY]: this.allowances });
+    } catch (error) {
+      console.warn('Failed to save focus allowances:', error);
+    }
+  }
+}
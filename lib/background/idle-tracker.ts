@@ -50,6 +50,8 @@ export class IdleTracker {
   }
 
   public setIdleThreshold(seconds: number) {
+    if (seconds === this.idleThreshold) return;
+
     this.idleThreshold = seconds;
     chrome.idle.setDetectionInterval(this.idleThreshold);
     console.log(`Idle threshold updated to ${seconds}s`);
@@ -0,0 +1,196 @@
+import { formatFullTime } from '../../shared/utils/time';
+import type { LimitStatus } from '../../shared/types/interfaces';
+import type { Category } from '../../shared/types/settings';
+import { CATEGORY_LABELS, resolveCategory } from '../../shared/constants/categories';
+import { addDays, getStartOfDayAt } from '../../shared/utils/date-utils';
+import { resolveDomainPattern } from '../../shared/utils/url-utils';
+
+const STORAGE_KEY = 'limitUsage';
+const MINUTE_MS = 60 * 1000;
+const CATEGORY_PREFIX = 'category:';
+
+export interface LimitConfig {
+  /** Minutes per domain pattern */
+  limits: Record<string, number>;
+  /** Minutes per category, shared by every domain in it */
+  categoryLimits: Partial<Record<Category, number>>;
+  categoryOverrides: Record<string, Category>;
+  /** Percentages of a limit that trigger a notification */
+  thresholds: number[];
+  resetHour: number;
+}
+
+interface LimitUsage {
+  periodStart: number;
+  /** Active time per limited pattern, or `category:<name>`, since periodStart */
+  used: Record<string, number>;
+  /** Highest threshold already notified per pattern */
+  alerted: Record<string, number>;
+}
+
+const emptyUsage = (periodStart: number): LimitUsage => ({ periodStart, used: {}, alerted: {} });
+
+/**
+ * Counts active time against the daily limits and notifies as thresholds are
+ * crossed. Usage is kept in chrome.storage.local rather than derived from the
+ * daily rollups, whose days always start at midnight.
+ */
+export class LimitManager {
+  private static instance: LimitManager;
+  private config: LimitConfig = { limits: {}, categoryLimits: {}, categoryOverrides: {}, thresholds: [], resetHour: 0 };
+  private usage: LimitUsage = emptyUsage(0);
+  private loaded: Promise<void>;
+
+  static getInstance(): LimitManager {
+    if (!LimitManager.instance) {
+      LimitManager.instance = new LimitManager();
+    }
+    return LimitManager.instance;
+  }
+
+  constructor() {
+    this.loaded = this.load();
+  }
+
+  setConfig(config: LimitConfig) {
+    this.config = config;
+  }
+
+  /** Counts an interval of active time on `domain` towards the domain and category limits covering it. */
+  async record(domain: string, start: number, end: number) {
+    const keys = this.resolveKeys(domain);
+    if (keys.length === 0) return;
+
+    await this.loaded;
+    this.rollOver(end);
+
+    const counted = end - Math.max(start, this.usage.periodStart);
+    if (counted <= 0) return;
+
+    const alerts: [pattern: string, threshold: number][] = [];
+    for (const key of keys) {
+      this.usage.used[key] = (this.usage.used[key] || 0) + counted;
+      const threshold = this.markCrossedThreshold(key);
+      if (threshold !== null) alerts.push([key, threshold]);
+    }
+
+    // Saved first so a worker stopped while notifying doesn't alert twice
+    await this.save();
+    for (const [pattern, threshold] of alerts) {
+      await this.notify(pattern, threshold);
+    }
+  }
+
+  /**
+   * The limit on `domain` closest to being used up. Its pattern is
+   * `category:<name>` when that is the category's shared limit.
+   */
+  async getStatus(domain: string): Promise<LimitStatus | null> {
+    const keys = this.resolveKeys(domain);
+    if (keys.length === 0) return null;
+
+    await this.loaded;
+    this.rollOver(Date.now());
+
+    const warningPercent = Math.min(100, ...this.config.thresholds);
+    const statuses = keys.map(key => {
+      const limitMs = this.getLimitMs(key);
+      return {
+        pattern: key,
+        usedMs: this.usage.used[key] || 0,
+        limitMs,
+        warningMs: limitMs * warningPercent / 100,
+        resetsAt: addDays(this.usage.periodStart, 1)
+      };
+    });
+
+    return statuses.reduce((worst, status) =>
+      status.usedMs / status.limitMs > worst.usedMs / worst.limitMs ? status : worst);
+  }
+
+  private resolveKeys(domain: string): string[] {
+    const keys: string[] = [];
+
+    const pattern = resolveDomainPattern(Object.keys(this.config.limits), domain);
+    if (pattern) keys.push(pattern);
+
+    const category = resolveCategory(domain, this.config.categoryOverrides);
+    if (this.config.categoryLimits[category]) keys.push(CATEGORY_PREFIX + category);
+
+    return keys;
+  }
+
+  private getLimitMs(key: string): number {
+    const minutes = key.startsWith(CATEGORY_PREFIX)
+      ? this.config.categoryLimits[key.slice(CATEGORY_PREFIX.length) as Category]
+      : this.config.limits[key];
+    return (minutes || 0) * MINUTE_MS;
+  }
+
+  private getLabel(key: string): string {
+    return key.startsWith(CATEGORY_PREFIX)
+      ? `${CATEGORY_LABELS[key.slice(CATEGORY_PREFIX.length) as Category]} sites`
+      : key;
+  }
+
+  private rollOver(now: number) {
+    const periodStart = getStartOfDayAt(now, this.config.resetHour);
+
+    // Moving the reset hour back doesn't give the current day a second start
+    if (periodStart > this.usage.periodStart) {
+      this.usage = emptyUsage(periodStart);
+    }
+  }
+
+  /** Records the alert threshold `pattern` just crossed and returns it, or null if none. */
+  private markCrossedThreshold(pattern: string): number | null {
+    const percent = this.usage.used[pattern] / this.getLimitMs(pattern) * 100;
+    const alerted = this.usage.alerted[pattern] || 0;
+
+    const crossed = this.config.thresholds.filter(threshold => threshold <= percent && threshold > alerted);
+    if (crossed.length === 0) return null;
+
+    // Only the highest one when several were crossed at once
+    const threshold = Math.max(...crossed);
+    this.usage.alerted[pattern] = threshold;
+    return threshold;
+  }
+
+  private async notify(pattern: string, threshold: number) {
+    const usedMs = this.usage.used[pattern];
+    const limitMs = this.getLimitMs(pattern);
+    const label = this.getLabel(pattern);
+
+    try {
+      await chrome.notifications.create(`limit:${pattern}`, {
+        type: 'basic',
+        iconUrl: chrome.runtime.getURL('/icon/128.png'),
+        title: threshold >= 100
+          ? `Daily limit reached on ${label}`
+          : `${threshold}% of your daily limit on ${label}`,
+        message: `${formatFullTime(usedMs)} of ${formatFullTime(limitMs)} used today`
+      });
+    } catch (error) {
+      console.warn('Failed to show limit notification:', error);
+    }
+  }
+
+  private async load() {
+    try {
+      const stored = await chrome.storage.local.get(STORAGE_KEY);
+      if (stored[STORAGE_KEY]) {
+        this.usage = stored[STORAGE_KEY];
+      }
+    } catch (error) {
+      console.warn('Failed to load limit usage:', error);
+    }
+  }
+
+  private async save() {
+    try {
+      await chrome.storage.local.set({ [STORAGE_KEY]: this.usage });
+    } catch (error) {
+      console.warn('Failed to save limit usage:', error);
+    }
+  }
+}
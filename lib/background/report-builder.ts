@@ -0,0 +1,239 @@
+import { Dexie } from 'dexie';
+import type { DailyActivity, Event, Page, Session } from '../../shared/types/database';
+import type { Category } from '../../shared/types/settings';
+import type { FocusStretch, Heatmap, Report, ReportPeriod } from '../../shared/types/interfaces';
+import { CONST_EVENTS } from '../../shared/constants/constants';
+import { resolveCategory } from '../../shared/constants/categories';
+import { addDays, addMonths, getDayKey, getStartOfMonth, getStartOfWeek, splitIntervalByHour } from '../../shared/utils/date-utils';
+
+interface AnalyticsDB extends Dexie {
+  pages: Dexie.Table<Page, number>;
+  events: Dexie.Table<Event, number>;
+  sessions: Dexie.Table<Session, number>;
+  daily_activity: Dexie.Table<DailyActivity, number>;
+}
+
+const TOP_DOMAINS = 10;
+const LONGEST_STRETCHES = 5;
+const CELL_DOMAINS = 5;
+
+// A tab takes focus with these and gives it up with those; only one tab has focus at a time.
+// Page views don't count: background tabs load pages too, and a load in the focused tab records a focus gain.
+const STRETCH_START: string[] = [CONST_EVENTS.FOCUS_GAIN, CONST_EVENTS.IDLE_END];
+const STRETCH_END: string[] = [CONST_EVENTS.FOCUS_LOST, CONST_EVENTS.IDLE_START, CONST_EVENTS.TAB_CLOSE, CONST_EVENTS.SESSION_END];
+
+interface Period {
+  start: number;
+  end: number;
+}
+
+function getPeriod(period: ReportPeriod, date: number): Period {
+  const start = period === 'week' ? getStartOfWeek(date) : getStartOfMonth(date);
+  const end = period === 'week' ? addDays(start, 7) : addMonths(start, 1);
+  return { start, end };
+}
+
+/**
+ * Summarises a week or month: time per domain and day from the daily rollups,
+ * focus stretches and busy hours replayed from the focus events, and
+ * sessions and first visits from their own tables. The same stretches feed the
+ * hour-by-weekday heatmap.
+ */
+export class ReportBuilder {
+  private static instance: ReportBuilder;
+  private db: AnalyticsDB;
+
+  constructor(db: AnalyticsDB) {
+    this.db = db;
+  }
+
+  static getInstance(db?: AnalyticsDB): ReportBuilder {
+    if (!ReportBuilder.instance && db) {
+      ReportBuilder.instance = new ReportBuilder(db);
+    }
+    return ReportBuilder.instance;
+  }
+
+  async build(period: ReportPeriod, date: number, categoryOverrides: Record<string, Category> = {}): Promise<Report> {
+    const current = getPeriod(period, date);
+    const previous = getPeriod(period, current.start - 1);
+
+    const rows = await this.getRows(current);
+    const previousRows = await this.getRows(previous);
+
+    const domainTimes = this.sumBy(rows, row => row.domain);
+    const previousTimes = this.sumBy(previousRows, row => row.domain);
+    const dayTimes = this.sumBy(rows, row => row.date);
+    const categoryTimes = this.sumBy(rows, row => resolveCategory(row.domain, categoryOverrides));
+    const previousCategoryTimes = this.sumBy(previousRows, row => resolveCategory(row.domain, categoryOverrides));
+
+    const days: Report['days'] = [];
+    for (let day = current.start; day < current.end; day = addDays(day, 1)) {
+      const key = getDayKey(day);
+      days.push({ date: key, activeTime: dayTimes.get(key) || 0 });
+    }
+
+    const topDomains = Array.from(domainTimes.entries())
+      .map(([domain, activeTime]) => ({ domain, activeTime, previousActiveTime: previousTimes.get(domain) || 0 }))
+      .sort((a, b) => b.activeTime - a.activeTime)
+      .slice(0, TOP_DOMAINS);
+
+    const categories = Array.from(new Set([...categoryTimes.keys(), ...previousCategoryTimes.keys()]) as Set<Category>)
+      .map(category => ({
+        category,
+        activeTime: categoryTimes.get(category) || 0,
+        previousActiveTime: previousCategoryTimes.get(category) || 0
+      }))
+      .sort((a, b) => b.activeTime - a.activeTime);
+
+    const stretches = await this.getStretches(current);
+    const hours = new Array<number>(24).fill(0);
+    stretches.forEach(stretch => {
+      splitIntervalByHour(stretch.start, stretch.start + stretch.duration).forEach(chunk => {
+        hours[chunk.hour] += chunk.duration;
+      });
+    });
+
+    const sessionCount = await this.db.sessions
+      .where('startTime').between(current.start, current.end, true, false)
+      .count();
+
+    return {
+      period,
+      start: current.start,
+      end: current.end,
+      generatedAt: Date.now(),
+      totalActiveTime: rows.reduce((total, row) => total + row.activeTime, 0),
+      previousActiveTime: previousRows.reduce((total, row) => total + row.activeTime, 0),
+      sessionCount,
+      topDomains,
+      categories,
+      days,
+      hours,
+      longestStretches: stretches.sort((a, b) => b.duration - a.duration).slice(0, LONGEST_STRETCHES),
+      newDomains: await this.getNewDomains(current, domainTimes)
+    };
+  }
+
+  /** Active time per weekday and local hour over any range, optionally for one domain only. */
+  async buildHeatmap(start: number, end: number, domain?: string): Promise<Heatmap> {
+    const cells = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+    const byDomain = new Map<string, Map<string, number>>();
+
+    const stretches = (await this.getStretches({ start, end }))
+      .filter(stretch => !domain || stretch.domain === domain);
+
+    stretches.forEach(stretch => {
+      splitIntervalByHour(stretch.start, stretch.start + stretch.duration).forEach(chunk => {
+        cells[chunk.weekday][chunk.hour] += chunk.duration;
+
+        const key = `${chunk.weekday}-${chunk.hour}`;
+        const domains = byDomain.get(key) || new Map<string, number>();
+        domains.set(stretch.domain, (domains.get(stretch.domain) || 0) + chunk.duration);
+        byDomain.set(key, domains);
+      });
+    });
+
+    const cellDomains = Object.fromEntries(Array.from(byDomain.entries(), ([key, domains]) => [
+      key,
+      Array.from(domains.entries())
+        .map(([domain, activeTime]) => ({ domain, activeTime }))
+        .sort((a, b) => b.activeTime - a.activeTime)
+        .slice(0, CELL_DOMAINS)
+    ]));
+
+    return { start, end, domain: domain ?? null, cells, cellDomains };
+  }
+
+  private async getRows({ start, end }: Period): Promise<DailyActivity[]> {
+    return this.db.daily_activity
+      .where('date').between(getDayKey(start), getDayKey(end - 1), true, true)
+      .toArray();
+  }
+
+  private sumBy(rows: DailyActivity[], key: (row: DailyActivity) => string): Map<string, number> {
+    const totals = new Map<string, number>();
+    rows.forEach(row => totals.set(key(row), (totals.get(key(row)) || 0) + row.activeTime));
+    return totals;
+  }
+
+  /**
+   * Replays the period's focus events in order. Focus moving to another page of
+   * the same domain continues the stretch; anything else ends it. Stretches are
+   * clipped to the period, and one still open is counted up to now.
+   */
+  private async getStretches({ start, end }: Period): Promise<FocusStretch[]> {
+    const { db } = this;
+    const isFocusEvent = (event: Event) => STRETCH_START.includes(event.type) || STRETCH_END.includes(event.type);
+
+    // Whether a stretch was already running when the period began
+    const before = await db.events
+      .where('timestamp').below(start)
+      .reverse()
+      .filter(isFocusEvent)
+      .first();
+    const inPeriod = await db.events
+      .where('timestamp').between(start, end, true, false)
+      .and(isFocusEvent)
+      .sortBy('timestamp');
+    const events = before ? [before, ...inPeriod] : inPeriod;
+
+    const pageIds = Array.from(new Set(events.flatMap(event => event.pageId === undefined ? [] : [event.pageId])));
+    const pages = await db.pages.bulkGet(pageIds);
+    const domains = new Map(pages.flatMap(page => page ? [[page.id!, page.domain] as const] : []));
+
+    const stretches: FocusStretch[] = [];
+    const periodEnd = Math.min(end, Date.now());
+    let open: { domain: string, start: number, visitId?: string } | null = null;
+
+    const close = (at: number) => {
+      if (open) {
+        const from = Math.max(open.start, start);
+        const to = Math.min(at, periodEnd);
+        if (to > from) stretches.push({ domain: open.domain, start: from, duration: to - from });
+      }
+      open = null;
+    };
+
+    events.forEach(event => {
+      const domain = event.pageId === undefined ? undefined : domains.get(event.pageId);
+
+      if (STRETCH_END.includes(event.type)) {
+        // Other tabs closing or losing focus don't interrupt the one in front
+        if (open && (event.type === CONST_EVENTS.SESSION_END || event.visitId === open.visitId)) {
+          close(event.timestamp);
+        }
+        return;
+      }
+
+      if (!domain) return;
+      if (open?.domain === domain) {
+        open.visitId = event.visitId;
+        return;
+      }
+
+      close(event.timestamp);
+      open = { domain, start: event.timestamp, visitId: event.visitId };
+    });
+
+    close(periodEnd);
+    return stretches;
+  }
+
+  private async getNewDomains({ start, end }: Period, domainTimes: Map<string, number>): Promise<Report['newDomains']> {
+    const { db } = this;
+    const firstSeen = await db.pages.where('firstVisit').between(start, end, true, false).toArray();
+    const candidates = Array.from(new Set(firstSeen.map(page => page.domain)));
+    if (candidates.length === 0) return [];
+
+    const firstVisits = new Map<string, number>();
+    (await db.pages.where('domain').anyOf(candidates).toArray()).forEach(page => {
+      firstVisits.set(page.domain, Math.min(firstVisits.get(page.domain) ?? Infinity, page.firstVisit));
+    });
+
+    return candidates
+      .filter(domain => (firstVisits.get(domain) ?? start) >= start)
+      .map(domain => ({ domain, firstVisit: firstVisits.get(domain)!, activeTime: domainTimes.get(domain) || 0 }))
+      .sort((a, b) => a.firstVisit - b.firstVisit);
+  }
+}
@@ -0,0 +1,105 @@
+import { Dexie } from 'dexie';
+import type { DailyActivity, Event, InteractionSummary, Page, Session } from '../../shared/types/database';
+import type { CleanupReport } from '../../shared/types/interfaces';
+import { INTERACTION_EVENTS } from '../../shared/constants/constants';
+import { getDayKey, getStartOfDay } from '../../shared/utils/date-utils';
+import { EventCompactor } from './event-compactor';
+
+interface AnalyticsDB extends Dexie {
+  pages: Dexie.Table<Page, number>;
+  events: Dexie.Table<Event, number>;
+  sessions: Dexie.Table<Session, number>;
+  daily_activity: Dexie.Table<DailyActivity, number>;
+  interaction_summaries: Dexie.Table<InteractionSummary, number>;
+}
+
+/** Days each class of data is kept for */
+export interface RetentionPolicy {
+  interactionDays: number;
+  sessionDays: number;
+  pageDays: number;
+}
+
+const REPORT_KEY = 'lastCleanup';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class RetentionManager {
+  private static instance: RetentionManager;
+  private db: AnalyticsDB;
+
+  constructor(db: AnalyticsDB) {
+    this.db = db;
+  }
+
+  static getInstance(db?: AnalyticsDB): RetentionManager {
+    if (!RetentionManager.instance && db) {
+      RetentionManager.instance = new RetentionManager(db);
+    }
+    return RetentionManager.instance;
+  }
+
+  /**
+   * Removes everything past its class's age, counted in whole days. Pages go last
+   * and only once no daily rollup, summary or event refers to them any more. Raw
+   * interaction events are kept until compaction has folded them into a summary.
+   */
+  async cleanup(policy: RetentionPolicy): Promise<CleanupReport> {
+    const { db } = this;
+    const today = getStartOfDay(Date.now());
+    const interactionCutoff = today - policy.interactionDays * DAY_MS;
+    const sessionCutoff = today - policy.sessionDays * DAY_MS;
+    const pageCutoff = today - policy.pageDays * DAY_MS;
+    const interactionTypes: string[] = [...INTERACTION_EVENTS];
+    const watermark = await EventCompactor.getInstance().getWatermark();
+
+    const tables = [db.events, db.sessions, db.daily_activity, db.interaction_summaries, db.pages];
+    const report = await db.transaction('rw', tables, async () => {
+      // Normally already gone after compaction; only left over if it fell behind
+      const interactionEvents = await db.events
+        .where('type').anyOf(interactionTypes)
+        .and(event => event.timestamp < interactionCutoff && event.id! <= watermark)
+        .delete();
+
+      const interactionSummaries = await db.interaction_summaries
+        .where('date').below(getDayKey(interactionCutoff))
+        .delete();
+
+      const events = await db.events
+        .where('timestamp').below(sessionCutoff)
+        .and(event => !interactionTypes.includes(event.type))
+        .delete();
+
+      const sessions = await db.sessions
+        .where('startTime').below(sessionCutoff)
+        .and(session => !session.isActive && (session.endTime ?? session.startTime) < sessionCutoff)
+        .delete();
+
+      const dailyActivity = await db.daily_activity
+        .where('date').below(getDayKey(pageCutoff))
+        .delete();
+
+      const referenced = new Set<number>([
+        ...(await db.daily_activity.orderBy('pageId').uniqueKeys()) as number[],
+        ...(await db.events.orderBy('pageId').uniqueKeys()) as number[],
+        ...(await db.interaction_summaries.orderBy('pageId').uniqueKeys()) as number[]
+      ]);
+
+      const pages = await db.pages
+        .where('lastVisit').below(pageCutoff)
+        .and(page => !referenced.has(page.id!) && !page.currentSessionStart && !page.currentPassiveStart && !page.currentVisibleStart)
+        .delete();
+
+      return { ranAt: Date.now(), interactionEvents, interactionSummaries, events, sessions, dailyActivity, pages };
+    });
+
+    await chrome.storage.local.set({ [REPORT_KEY]: report });
+    console.log('Retention cleanup finished', report);
+
+    return report;
+  }
+
+  async getLastReport(): Promise<CleanupReport | null> {
+    const stored = await chrome.storage.local.get(REPORT_KEY);
+    return stored[REPORT_KEY] ?? null;
+  }
+}
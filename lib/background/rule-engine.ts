@@ -0,0 +1,107 @@
+import { Dexie } from 'dexie';
+import type { DomainRule } from '../../shared/types/database';
+import { isValidDomainPattern, matchesDomainPattern, normalizeDomain } from '../../shared/utils/url-utils';
+
+interface AnalyticsDB extends Dexie {
+  domain_rules: Dexie.Table<DomainRule, number>;
+}
+
+export type RuleDecision = 'track' | 'private' | 'block';
+
+export class RuleEngine {
+  private static instance: RuleEngine;
+  private rules: DomainRule[] = [];
+  private db: AnalyticsDB;
+
+  constructor(db: AnalyticsDB) {
+    this.db = db;
+  }
+
+  static getInstance(db?: AnalyticsDB): RuleEngine {
+    if (!RuleEngine.instance && db) {
+      RuleEngine.instance = new RuleEngine(db);
+    }
+    return RuleEngine.instance;
+  }
+
+  async initialize() {
+    this.rules = await this.db.domain_rules.toArray();
+    console.log(`RuleEngine loaded ${this.rules.length} domain rules`);
+  }
+
+  evaluate(domain: string): RuleDecision {
+    const normalized = normalizeDomain(domain);
+    const activeRules = this.rules.filter(rule => rule.isActive);
+    const matching = activeRules.filter(rule => matchesDomainPattern(rule.domain, normalized));
+
+    if (matching.some(rule => rule.ruleType === 'blacklist')) {
+      return 'block';
+    }
+
+    const whitelistMode = activeRules.some(rule => rule.ruleType === 'whitelist');
+    if (whitelistMode && !matching.some(rule => rule.ruleType === 'whitelist')) {
+      return 'block';
+    }
+
+    if (matching.some(rule => rule.ruleType === 'privacy_sensitive')) {
+      return 'private';
+    }
+
+    return 'track';
+  }
+
+  evaluateUrl(url: string): RuleDecision {
+    try {
+      return this.evaluate(new URL(url).hostname);
+    } catch {
+      return 'track';
+    }
+  }
+
+  getRules(): DomainRule[] {
+    return [...this.rules].sort((a, b) => a.domain.localeCompare(b.domain));
+  }
+
+  async addRule(domain: string, ruleType: DomainRule['ruleType']): Promise<DomainRule> {
+    const pattern = normalizeDomain(domain);
+
+    if (!isValidDomainPattern(pattern)) {
+      throw new Error(`Invalid domain pattern: ${domain}`);
+    }
+
+    if (!['whitelist', 'blacklist', 'privacy_sensitive'].includes(ruleType)) {
+      throw new Error(`Unknown rule type: ${ruleType}`);
+    }
+
+    const duplicate = this.rules.find(rule => rule.domain === pattern && rule.ruleType === ruleType);
+    if (duplicate) {
+      return duplicate;
+    }
+
+    const rule: DomainRule = {
+      domain: pattern,
+      ruleType,
+      isActive: true,
+      createdAt: Date.now()
+    };
+
+    rule.id = await this.db.domain_rules.add(rule);
+    this.rules.push(rule);
+
+    return rule;
+  }
+
+  async setRuleActive(id: number, isActive: boolean) {
+    await this.db.domain_rules.update(id, { isActive });
+
+    const rule = this.rules.find(rule => rule.id === id);
+    if (rule) {
+      rule.isActive = isActive;
+    }
+  }
+
+  async removeRule(id: number) {
+    await this.db.domain_rules.delete(id);
+    this.rules = this.rules.filter(rule => rule.id !== id);
+  }
+}
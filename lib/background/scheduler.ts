@@ -0,0 +1,146 @@
+import type { JobName, JobStatus } from '../../shared/types/interfaces';
+
+const ALARM_PREFIX = 'job:';
+const STATUS_KEY = 'jobStatus';
+
+export type JobSchedule =
+  | { periodInMinutes: number, delayInMinutes?: number }
+  /** One-shot alarm, re-armed for the returned time after every run */
+  | { at: () => number };
+
+interface Job {
+  schedule: JobSchedule;
+  run: () => Promise<void>;
+}
+
+const JOB_NAMES: JobName[] = ['checkpoint', 'badge-refresh', 'compaction', 'retention', 'daily-rollup'];
+
+const emptyStatus = (): JobStatus => ({ lastRun: null, lastDurationMs: null, lastError: null, nextRun: null });
+
+/**
+ * Named jobs on top of chrome.alarms, which wake a suspended worker where
+ * setInterval would simply stop. Alarms persist across restarts, so register()
+ * only (re)creates one when it is missing or its schedule changed.
+ */
+export class Scheduler {
+  private static instance: Scheduler;
+  private jobs = new Map<JobName, Job>();
+  private running = new Set<JobName>();
+  private statuses: Partial<Record<JobName, JobStatus>> = {};
+  private statusLoaded: Promise<void>;
+  private ready: Promise<unknown> = Promise.resolve();
+
+  static getInstance(): Scheduler {
+    if (!Scheduler.instance) {
+      Scheduler.instance = new Scheduler();
+    }
+    return Scheduler.instance;
+  }
+
+  constructor() {
+    // Must be attached synchronously so the alarm that woke the worker is delivered
+    chrome.alarms.onAlarm.addListener(this.handleAlarm.bind(this));
+    this.statusLoaded = this.loadStatuses();
+  }
+
+  /** Jobs wait for this before running, e.g. until the background has initialized. */
+  setReady(ready: Promise<unknown>) {
+    this.ready = ready;
+  }
+
+  register(name: JobName, schedule: JobSchedule, run: () => Promise<void>) {
+    this.jobs.set(name, { schedule, run });
+    this.ensureAlarm(name, schedule).catch(error => {
+      console.error(`Failed to schedule job ${name}:`, error);
+    });
+  }
+
+  async runNow(name: JobName) {
+    await this.run(name);
+  }
+
+  async getStatus(): Promise<Record<JobName, JobStatus>> {
+    await this.statusLoaded;
+    const alarms = await chrome.alarms.getAll();
+
+    return Object.fromEntries(JOB_NAMES.map(name => {
+      const alarm = alarms.find(alarm => alarm.name === ALARM_PREFIX + name);
+      return [name, { ...emptyStatus(), ...this.statuses[name], nextRun: alarm?.scheduledTime ?? null }];
+    })) as Record<JobName, JobStatus>;
+  }
+
+  private async ensureAlarm(name: JobName, schedule: JobSchedule) {
+    const alarmName = ALARM_PREFIX + name;
+    const existing = await chrome.alarms.get(alarmName);
+
+    if ('at' in schedule) {
+      // A one-shot alarm already pending (even overdue) stays; an overdue one fires right away
+      if (existing && !existing.periodInMinutes) return;
+      await chrome.alarms.create(alarmName, { when: schedule.at() });
+      return;
+    }
+
+    if (existing?.periodInMinutes === schedule.periodInMinutes) return;
+    await chrome.alarms.create(alarmName, {
+      periodInMinutes: schedule.periodInMinutes,
+      delayInMinutes: schedule.delayInMinutes ?? schedule.periodInMinutes
+    });
+  }
+
+  private handleAlarm(alarm: chrome.alarms.Alarm) {
+    if (!alarm.name.startsWith(ALARM_PREFIX)) return;
+
+    const name = alarm.name.slice(ALARM_PREFIX.length) as JobName;
+    this.run(name);
+  }
+
+  private async run(name: JobName) {
+    const job = this.jobs.get(name);
+    if (!job || this.running.has(name)) return;
+
+    this.running.add(name);
+    await this.ready;
+
+    const startedAt = Date.now();
+    let lastError: string | null = null;
+
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`Job ${name} failed:`, error);
+      lastError = error instanceof Error ? error.message : String(error);
+    } finally {
+      this.running.delete(name);
+    }
+
+    if ('at' in job.schedule) {
+      await chrome.alarms.create(ALARM_PREFIX + name, { when: job.schedule.at() });
+    }
+
+    await this.statusLoaded;
+    this.statuses[name] = {
+      ...emptyStatus(),
+      lastRun: startedAt,
+      lastDurationMs: Date.now() - startedAt,
+      lastError
+    };
+    await this.saveStatuses();
+  }
+
+  private async loadStatuses() {
+    try {
+      const stored = await chrome.storage.local.get(STATUS_KEY);
+      this.statuses = { ...stored[STATUS_KEY], ...this.statuses };
+    } catch (error) {
+      console.warn('Failed to load job status:', error);
+    }
+  }
+
+  private async saveStatuses() {
+    try {
+      await chrome.storage.local.set({ [STATUS_KEY]: this.statuses });
+    } catch (error) {
+      console.warn('Failed to save job status:', error);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { Dexie } from 'dexie';
+import type { Setting } from '../../shared/types/database';
+import type { ExtensionSettings, SettingKey, SettingsListener, SettingsPatch } from '../../shared/types/settings';
+import { DEFAULT_SETTINGS, isSettingKey, validateSettingValue, validateSettingsPatch } from '../../shared/constants/settings';
+
+interface AnalyticsDB extends Dexie {
+  settings: Dexie.Table<Setting, number>;
+}
+
+const LEGACY_SYNC_KEYS = ['badgeEnabled'] as const;
+
+export class SettingsStore {
+  private static instance: SettingsStore;
+  private settings: ExtensionSettings = { ...DEFAULT_SETTINGS };
+  private listeners: SettingsListener[] = [];
+  private db: AnalyticsDB;
+
+  constructor(db: AnalyticsDB) {
+    this.db = db;
+  }
+
+  static getInstance(db?: AnalyticsDB): SettingsStore {
+    if (!SettingsStore.instance && db) {
+      SettingsStore.instance = new SettingsStore(db);
+    }
+    return SettingsStore.instance;
+  }
+
+  async initialize() {
+    await this.migrateLegacySettings();
+
+    const rows = await this.db.settings.toArray();
+    const stored: Record<string, unknown> = {};
+
+    rows.forEach(row => {
+      if (!isSettingKey(row.key)) return;
+
+      if (validateSettingValue(row.key, row.value)) {
+        console.warn(`Ignoring invalid stored setting ${row.key}:`, row.value);
+        return;
+      }
+
+      stored[row.key] = row.value;
+    });
+
+    this.settings = { ...DEFAULT_SETTINGS, ...validateSettingsPatch(stored) };
+    console.log('SettingsStore initialized', this.settings);
+  }
+
+  get<K extends SettingKey>(key: K): ExtensionSettings[K] {
+    return this.settings[key];
+  }
+
+  getAll(): ExtensionSettings {
+    return { ...this.settings };
+  }
+
+  async set<K extends SettingKey>(key: K, value: ExtensionSettings[K]) {
+    return this.update({ [key]: value } as SettingsPatch);
+  }
+
+  async update(patch: Record<string, unknown>): Promise<ExtensionSettings> {
+    const valid = validateSettingsPatch(patch);
+    const changed = (Object.keys(valid) as SettingKey[])
+      .filter(key => this.settings[key] !== valid[key]);
+
+    if (changed.length === 0) {
+      return this.getAll();
+    }
+
+    const now = Date.now();
+    await this.db.transaction('rw', this.db.settings, async () => {
+      for (const key of changed) {
+        const value = valid[key];
+        const existing = await this.db.settings.where('key').equals(key).first();
+
+        if (existing) {
+          await this.db.settings.update(existing.id!, { value, updatedAt: now });
+        } else {
+          await this.db.settings.add({ key, value, updatedAt: now });
+        }
+      }
+    });
+
+    this.settings = { ...this.settings, ...valid };
+    this.notify(changed);
+
+    return this.getAll();
+  }
+
+  async reset(): Promise<ExtensionSettings> {
+    await this.db.settings.clear();
+
+    const changed = (Object.keys(DEFAULT_SETTINGS) as SettingKey[])
+      .filter(key => this.settings[key] !== DEFAULT_SETTINGS[key]);
+
+    this.settings = { ...DEFAULT_SETTINGS };
+    if (changed.length > 0) this.notify(changed);
+
+    return this.getAll();
+  }
+
+  subscribe(listener: SettingsListener): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index !== -1) this.listeners.splice(index, 1);
+    };
+  }
+
+  private notify(changed: SettingKey[]) {
+    const snapshot = this.getAll();
+
+    this.listeners.forEach(listener => {
+      try {
+        Promise.resolve(listener(snapshot, changed))
+          .catch(error => console.error('Error in settings listener:', error));
+      } catch (error) {
+        console.error('Error in settings listener:', error);
+      }
+    });
+  }
+
+  private async migrateLegacySettings() {
+    try {
+      const legacy = await chrome.storage.sync.get([...LEGACY_SYNC_KEYS]);
+      const present = LEGACY_SYNC_KEYS.filter(key => legacy[key] !== undefined);
+      if (present.length === 0) return;
+
+      for (const key of present) {
+        const stored = await this.db.settings.where('key').equals(key).first();
+        if (!stored && !validateSettingValue(key, legacy[key])) {
+          await this.db.settings.add({ key, value: legacy[key], updatedAt: Date.now() });
+          console.log(`Migrated legacy setting ${key} from storage.sync`);
+        }
+      }
+
+      await chrome.storage.sync.remove(present);
+    } catch (error) {
+      console.warn('Failed to migrate legacy settings:', error);
+    }
+  }
+}
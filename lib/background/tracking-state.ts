@@ -0,0 +1,85 @@
+import type { ActiveTab } from '../../shared/types/browser';
+
+const STORAGE_KEY = 'trackingState';
+
+export interface TrackingState {
+  sessionId: string | null;
+  sessionStartTime: number | null;
+  tabs: ActiveTab[];
+  focusedTabId?: number;
+  badgeTabId?: number;
+  badgeStartTimes: [tabId: number, startTime: number][];
+  /** Last moment the worker was known to be alive */
+  heartbeat: number;
+}
+
+const emptyState = (): TrackingState => ({
+  sessionId: null,
+  sessionStartTime: null,
+  tabs: [],
+  badgeStartTimes: [],
+  heartbeat: Date.now()
+});
+
+/**
+ * Mirrors the in-memory tracking state into chrome.storage.session, which outlives
+ * a suspended service worker but not the browser. Writes are queued so the stored
+ * copy always reflects the latest update.
+ */
+export class TrackingStateStore {
+  private static instance: TrackingStateStore;
+  private state: TrackingState = emptyState();
+  // Updates made before load() finishes, applied on top of what it reads
+  private earlyPatch: Partial<TrackingState> | null = {};
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  static getInstance(): TrackingStateStore {
+    if (!TrackingStateStore.instance) {
+      TrackingStateStore.instance = new TrackingStateStore();
+    }
+    return TrackingStateStore.instance;
+  }
+
+  /** Reads what the previous worker left behind; null after a browser start. */
+  async load(): Promise<TrackingState | null> {
+    let state: TrackingState | null = null;
+
+    try {
+      const stored = await chrome.storage.session.get(STORAGE_KEY);
+      state = (stored[STORAGE_KEY] as TrackingState | undefined) ?? null;
+    } catch (error) {
+      console.warn('Failed to load tracking state:', error);
+    }
+
+    this.state = { ...emptyState(), ...state, ...this.earlyPatch };
+    this.earlyPatch = null;
+    this.write();
+
+    return state;
+  }
+
+  update(patch: Partial<Omit<TrackingState, 'heartbeat'>>) {
+    if (this.earlyPatch) {
+      this.earlyPatch = { ...this.earlyPatch, ...patch };
+      return;
+    }
+
+    this.state = { ...this.state, ...patch };
+    this.write();
+  }
+
+  /** Records that the worker is still alive without changing anything else. */
+  heartbeat() {
+    if (this.earlyPatch) return;
+    this.write();
+  }
+
+  private write() {
+    this.state.heartbeat = Date.now();
+    const snapshot = { ...this.state };
+
+    this.pendingWrite = this.pendingWrite
+      .then(() => chrome.storage.session.set({ [STORAGE_KEY]: snapshot }))
+      .catch(error => console.warn('Failed to save tracking state:', error));
+  }
+}
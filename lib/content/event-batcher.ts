@@ -0,0 +1,83 @@
+import { CONST_EVENTS } from '../../shared/constants/constants';
+import type { InteractionEventType, MessageArgs, QueuedEvent } from '../../shared/types/messages';
+import { sendMessage } from '../../shared/utils/messaging';
+
+const FLUSH_INTERVAL_MS = 5000;
+const MAX_BATCH_SIZE = 50;
+// While the background keeps refusing, the oldest events beyond this are dropped
+const MAX_BUFFER_SIZE = 500;
+
+/**
+ * Buffers L2 events in the page and ships them to the background as BATCH_EVENTS:
+ * every few seconds, when a batch fills up, and when the page is hidden or left.
+ */
+export class EventBatcher {
+  private queue: QueuedEvent[] = [];
+  private flushing = false;
+  private retryAt = 0;
+  private flushInterval?: ReturnType<typeof setInterval>;
+
+  start() {
+    if (this.flushInterval) return;
+
+    this.flushInterval = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'hidden') this.flushAll();
+    }, { passive: true });
+
+    window.addEventListener('pagehide', () => this.flushAll());
+  }
+
+  push<K extends InteractionEventType>(type: K, ...[data]: MessageArgs<K>) {
+    this.queue.push({ type, data, timestamp: Date.now() } as QueuedEvent);
+
+    if (this.queue.length > MAX_BUFFER_SIZE) {
+      this.queue.splice(0, this.queue.length - MAX_BUFFER_SIZE);
+    }
+
+    if (this.queue.length >= MAX_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  /** Sends one batch unless one is already in flight or the background asked to wait. */
+  async flush() {
+    if (this.flushing || this.queue.length === 0 || Date.now() < this.retryAt) return;
+
+    this.flushing = true;
+    const batch = this.queue.splice(0, MAX_BATCH_SIZE);
+
+    try {
+      const response = await sendMessage(CONST_EVENTS.BATCH_EVENTS, { events: batch });
+
+      // null means tracking is paused and the batch was discarded on purpose
+      if (response && !response.accepted) {
+        this.requeue(batch, response.retryAfterMs ?? FLUSH_INTERVAL_MS);
+      }
+    } catch (error) {
+      console.warn('Failed to send event batch:', error);
+      this.requeue(batch, FLUSH_INTERVAL_MS);
+    } finally {
+      this.flushing = false;
+    }
+
+    if (this.queue.length >= MAX_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  /** Last chance before the page goes away: send everything, ignoring backpressure. */
+  private flushAll() {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, MAX_BATCH_SIZE);
+      sendMessage(CONST_EVENTS.BATCH_EVENTS, { events: batch }).catch(() => {/* page is unloading */ });
+    }
+  }
+
+  private requeue(batch: QueuedEvent[], retryAfterMs: number) {
+    this.queue.unshift(...batch);
+    this.queue.splice(0, Math.max(0, this.queue.length - MAX_BUFFER_SIZE));
+    this.retryAt = Date.now() + retryAfterMs;
+  }
+}
@@ -0,0 +1,153 @@
+import type { Category } from '../types/settings'
+import { resolveDomainValue } from '../utils/url-utils'
+
+export const CATEGORIES: readonly Category[] = [
+  'work',
+  'dev',
+  'social',
+  'news',
+  'entertainment',
+  'shopping',
+  'uncategorized',
+]
+
+export const CATEGORY_LABELS: Record<Category, string> = {
+  work: 'Work',
+  dev: 'Dev',
+  social: 'Social',
+  news: 'News',
+  entertainment: 'Entertainment',
+  shopping: 'Shopping',
+  uncategorized: 'Uncategorized',
+}
+
+export const CATEGORY_COLORS: Record<Category, string> = {
+  work: '#54a0ff',
+  dev: '#5f27cd',
+  social: '#ff6b6b',
+  news: '#feca57',
+  entertainment: '#ff9ff3',
+  shopping: '#4ecdc4',
+  uncategorized: '#BDC3C7',
+}
+
+/** Bundled defaults; users override them per domain pattern in settings */
+export const DEFAULT_CATEGORY_MAP: Record<string, Category> = {
+  // Work
+  'mail.google.com': 'work',
+  'docs.google.com': 'work',
+  'drive.google.com': 'work',
+  'calendar.google.com': 'work',
+  'meet.google.com': 'work',
+  '*.slack.com': 'work',
+  '*.notion.so': 'work',
+  '*.atlassian.net': 'work',
+  '*.atlassian.com': 'work',
+  'trello.com': 'work',
+  'asana.com': 'work',
+  'app.asana.com': 'work',
+  'linear.app': 'work',
+  'outlook.office.com': 'work',
+  'outlook.live.com': 'work',
+  'teams.microsoft.com': 'work',
+  '*.zoom.us': 'work',
+  '*.figma.com': 'work',
+  '*.miro.com': 'work',
+  '*.salesforce.com': 'work',
+  '*.linkedin.com': 'work',
+
+  // Dev
+  '*.github.com': 'dev',
+  '*.gitlab.com': 'dev',
+  '*.bitbucket.org': 'dev',
+  '*.stackoverflow.com': 'dev',
+  '*.stackexchange.com': 'dev',
+  'developer.mozilla.org': 'dev',
+  'developer.chrome.com': 'dev',
+  '*.npmjs.com': 'dev',
+  '*.pypi.org': 'dev',
+  '*.readthedocs.io': 'dev',
+  '*.vercel.com': 'dev',
+  '*.netlify.com': 'dev',
+  'console.aws.amazon.com': 'dev',
+  'console.cloud.google.com': 'dev',
+  'portal.azure.com': 'dev',
+  '*.docker.com': 'dev',
+  '*.codepen.io': 'dev',
+  '*.codesandbox.io': 'dev',
+  'localhost': 'dev',
+
+  // Social
+  '*.facebook.com': 'social',
+  '*.instagram.com': 'social',
+  '*.twitter.com': 'social',
+  '*.x.com': 'social',
+  '*.reddit.com': 'social',
+  '*.tiktok.com': 'social',
+  '*.pinterest.com': 'social',
+  '*.tumblr.com': 'social',
+  '*.snapchat.com': 'social',
+  '*.threads.net': 'social',
+  '*.bsky.app': 'social',
+  '*.mastodon.social': 'social',
+  '*.discord.com': 'social',
+  'web.whatsapp.com': 'social',
+  'web.telegram.org': 'social',
+  '*.messenger.com': 'social',
+
+  // News
+  '*.nytimes.com': 'news',
+  '*.theguardian.com': 'news',
+  '*.bbc.com': 'news',
+  '*.bbc.co.uk': 'news',
+  '*.cnn.com': 'news',
+  '*.reuters.com': 'news',
+  '*.apnews.com': 'news',
+  '*.washingtonpost.com': 'news',
+  '*.wsj.com': 'news',
+  '*.bloomberg.com': 'news',
+  '*.ft.com': 'news',
+  '*.economist.com': 'news',
+  'news.google.com': 'news',
+  'news.ycombinator.com': 'news',
+  '*.theverge.com': 'news',
+  '*.techcrunch.com': 'news',
+  '*.arstechnica.com': 'news',
+
+  // Entertainment
+  '*.youtube.com': 'entertainment',
+  '*.netflix.com': 'entertainment',
+  '*.twitch.tv': 'entertainment',
+  '*.spotify.com': 'entertainment',
+  '*.primevideo.com': 'entertainment',
+  '*.disneyplus.com': 'entertainment',
+  '*.hulu.com': 'entertainment',
+  '*.max.com': 'entertainment',
+  '*.vimeo.com': 'entertainment',
+  '*.soundcloud.com': 'entertainment',
+  '*.imdb.com': 'entertainment',
+  '*.9gag.com': 'entertainment',
+  '*.steampowered.com': 'entertainment',
+
+  // Shopping
+  '*.amazon.com': 'shopping',
+  '*.amazon.co.uk': 'shopping',
+  '*.amazon.de': 'shopping',
+  '*.ebay.com': 'shopping',
+  '*.etsy.com': 'shopping',
+  '*.aliexpress.com': 'shopping',
+  '*.walmart.com': 'shopping',
+  '*.target.com': 'shopping',
+  '*.bestbuy.com': 'shopping',
+  '*.ikea.com': 'shopping',
+  '*.zalando.com': 'shopping',
+  '*.shein.com': 'shopping',
+  '*.temu.com': 'shopping',
+}
+
+/** The user's override for `domain` if any, else the bundled default, else uncategorized. */
+export function resolveCategory(domain: string, overrides: Record<string, Category> = {}): Category {
+  return resolveDomainValue(overrides, domain)
+    ?? resolveDomainValue(DEFAULT_CATEGORY_MAP, domain)
+    ?? 'uncategorized'
+}
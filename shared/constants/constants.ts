@@ -1,22 +1,52 @@
 export const CONST_EVENTS = {
   PAGE_VIEW: 'page_view',
   FOCUS_GAIN: 'focus_gain',
+  FOCUS_LOST: 'focus_lost',
   TAB_CLOSE: 'tab_close',
+  IDLE_START: 'idle_start',
+  IDLE_END: 'idle_end',
+  SESSION_START: 'session_start',
+  SESSION_END: 'session_end',
+  FOCUS_BYPASS: 'focus_bypass',
   ACTIVE: 'active',
   IS_TRACKING_ENABLED: 'IS_TRACKING_ENABLED',
   PAUSE_TRACKING: 'PAUSE_TRACKING',
   RESUME_TRACKING: 'RESUME_TRACKING',
   SET_BADGE_ENABLED: 'SET_BADGE_ENABLED',
+  GET_SETTINGS: 'GET_SETTINGS',
+  UPDATE_SETTINGS: 'UPDATE_SETTINGS',
   GET_TODAY_TIME: 'GET_TODAY_TIME',
   GET_STATS: 'GET_STATS',
+  GET_RANGE_STATS: 'GET_RANGE_STATS',
+  GET_DAILY_TREND: 'GET_DAILY_TREND',
+  GET_ALL_TABS: 'GET_ALL_TABS',
+  GET_METRICS: 'GET_METRICS',
   EXPORT_DATA: 'EXPORT_DATA',
+  EXPORT_CHUNK: 'EXPORT_CHUNK',
+  EXPORT_BACKUP_CHUNK: 'EXPORT_BACKUP_CHUNK',
+  IMPORT_START: 'IMPORT_START',
+  IMPORT_CHUNK: 'IMPORT_CHUNK',
+  IMPORT_FINISH: 'IMPORT_FINISH',
+  GET_STORAGE_USAGE: 'GET_STORAGE_USAGE',
+  GET_JOB_STATUS: 'GET_JOB_STATUS',
+  RUN_CLEANUP: 'RUN_CLEANUP',
   CLEAR_DATA: 'CLEAR_DATA',
+  GET_DOMAIN_RULES: 'GET_DOMAIN_RULES',
+  ADD_DOMAIN_RULE: 'ADD_DOMAIN_RULE',
+  UPDATE_DOMAIN_RULE: 'UPDATE_DOMAIN_RULE',
+  REMOVE_DOMAIN_RULE: 'REMOVE_DOMAIN_RULE',
   VISIBILITY_CHANGE: 'VISIBILITY_CHANGE',
+  MEDIA_STATE: 'MEDIA_STATE',
   SCROLL_DEPTH: 'scroll_depth',
   CLICK: 'click',
   KEYDOWN: 'keydown',
   FORM_INTERACTION: 'form_interaction',
   SPA_ROUTE_CHANGE: 'spa_route_change',
+  BATCH_EVENTS: 'BATCH_EVENTS',
+  GET_BLOCK_INFO: 'GET_BLOCK_INFO',
+  ALLOW_BYPASS: 'ALLOW_BYPASS',
+  GET_REPORT: 'GET_REPORT',
+  GET_HEATMAP: 'GET_HEATMAP',
 
   visibilitychange: 'visibilitychange',
   beforeunload: 'beforeunload',
@@ -28,6 +58,24 @@ export const CONST_EVENTS = {
   COMPLETE: 'complete',
 } as const
 
+/** L2 event types; kept for a shorter time than navigation events */
+export const INTERACTION_EVENTS = [
+  CONST_EVENTS.SCROLL_DEPTH,
+  CONST_EVENTS.CLICK,
+  CONST_EVENTS.KEYDOWN,
+  CONST_EVENTS.FORM_INTERACTION,
+  CONST_EVENTS.SPA_ROUTE_CHANGE,
+] as const
+
+/** Version written into JSON backups; the importer also reads older ones */
+export const EXPORT_VERSION = '1.1'
+
+/** Tables of a JSON backup, in the order they are written and restored */
+export const BACKUP_TABLES = ['pages', 'events', 'sessions', 'dailyActivity'] as const
+
+/** How long "allow a few more minutes" on the focus interstitial lets a site through */
+export const FOCUS_BYPASS_MINUTES = 5
+
 export const indicatorColors = [
   '#ff6b6b',
   '#4ecdc4',
@@ -0,0 +1,208 @@
+import type { Message, MessageType, QueuedEvent } from '../types/messages'
+import { BACKUP_TABLES, CONST_EVENTS, INTERACTION_EVENTS } from './constants'
+
+type FieldRule =
+  | { type: 'string' | 'number' | 'boolean' | 'object' | 'array', optional?: boolean }
+  | { type: 'enum', values: readonly string[], optional?: boolean }
+
+// null: the message carries no data; 'record': any plain object, validated by the handler
+type PayloadRule = null | 'record' | Record<string, FieldRule>
+
+export const MESSAGE_SCHEMA: Record<MessageType, PayloadRule> = {
+  [CONST_EVENTS.PAGE_VIEW]: {
+    url: { type: 'string' },
+    title: { type: 'string' },
+    referrer: { type: 'string', optional: true },
+  },
+  [CONST_EVENTS.VISIBILITY_CHANGE]: {
+    visible: { type: 'boolean' },
+    url: { type: 'string', optional: true },
+    reason: { type: 'string', optional: true },
+  },
+  [CONST_EVENTS.MEDIA_STATE]: { playing: { type: 'boolean' } },
+
+  // L2
+  [CONST_EVENTS.SCROLL_DEPTH]: { value: { type: 'number' } },
+  [CONST_EVENTS.CLICK]: {
+    tag: { type: 'string' },
+    id: { type: 'string' },
+    classes: { type: 'string' },
+    x: { type: 'number' },
+    y: { type: 'number' },
+  },
+  [CONST_EVENTS.KEYDOWN]: null,
+  [CONST_EVENTS.FORM_INTERACTION]: {
+    interactionType: { type: 'string' },
+    tag: { type: 'string' },
+  },
+  [CONST_EVENTS.SPA_ROUTE_CHANGE]: {
+    interactionType: { type: 'string' },
+    url: { type: 'string' },
+    details: { type: 'object', optional: true },
+  },
+  // Items are checked one by one with validateQueuedEvent
+  [CONST_EVENTS.BATCH_EVENTS]: { events: { type: 'array' } },
+
+  [CONST_EVENTS.GET_TODAY_TIME]: null,
+  [CONST_EVENTS.GET_STATS]: null,
+  [CONST_EVENTS.GET_RANGE_STATS]: {
+    start: { type: 'number' },
+    end: { type: 'number' },
+  },
+  [CONST_EVENTS.GET_DAILY_TREND]: {
+    start: { type: 'number' },
+    end: { type: 'number' },
+  },
+  [CONST_EVENTS.GET_ALL_TABS]: null,
+  [CONST_EVENTS.GET_METRICS]: { url: { type: 'string', optional: true } },
+
+  [CONST_EVENTS.IS_TRACKING_ENABLED]: null,
+  [CONST_EVENTS.PAUSE_TRACKING]: null,
+  [CONST_EVENTS.RESUME_TRACKING]: null,
+  [CONST_EVENTS.SET_BADGE_ENABLED]: { enabled: { type: 'boolean' } },
+  [CONST_EVENTS.GET_SETTINGS]: null,
+  [CONST_EVENTS.UPDATE_SETTINGS]: 'record',
+
+  [CONST_EVENTS.GET_DOMAIN_RULES]: null,
+  [CONST_EVENTS.ADD_DOMAIN_RULE]: {
+    domain: { type: 'string' },
+    ruleType: { type: 'enum', values: ['whitelist', 'blacklist', 'privacy_sensitive'] },
+  },
+  [CONST_EVENTS.UPDATE_DOMAIN_RULE]: {
+    id: { type: 'number' },
+    isActive: { type: 'boolean' },
+  },
+  [CONST_EVENTS.REMOVE_DOMAIN_RULE]: { id: { type: 'number' } },
+
+  [CONST_EVENTS.EXPORT_DATA]: null,
+  [CONST_EVENTS.EXPORT_CHUNK]: {
+    format: { type: 'enum', values: ['pages-csv', 'events-csv', 'events-ndjson', 'daily-csv', 'categories-csv'] },
+    start: { type: 'number', optional: true },
+    end: { type: 'number', optional: true },
+    cursor: { type: 'number', optional: true },
+  },
+  [CONST_EVENTS.EXPORT_BACKUP_CHUNK]: {
+    table: { type: 'enum', values: BACKUP_TABLES },
+    start: { type: 'number', optional: true },
+    end: { type: 'number', optional: true },
+    cursor: { type: 'number', optional: true },
+  },
+  [CONST_EVENTS.IMPORT_START]: {
+    version: { type: 'string' },
+    exportDate: { type: 'string' },
+    mode: { type: 'enum', values: ['replace', 'merge'] },
+    dryRun: { type: 'boolean', optional: true },
+  },
+  // Rows are checked by DataImporter
+  [CONST_EVENTS.IMPORT_CHUNK]: {
+    importId: { type: 'string' },
+    table: { type: 'enum', values: BACKUP_TABLES },
+    rows: { type: 'array' },
+  },
+  [CONST_EVENTS.IMPORT_FINISH]: { importId: { type: 'string' } },
+  [CONST_EVENTS.GET_STORAGE_USAGE]: null,
+  [CONST_EVENTS.GET_JOB_STATUS]: null,
+  [CONST_EVENTS.RUN_CLEANUP]: null,
+  [CONST_EVENTS.CLEAR_DATA]: null,
+
+  [CONST_EVENTS.GET_BLOCK_INFO]: { url: { type: 'string' } },
+  [CONST_EVENTS.ALLOW_BYPASS]: {
+    url: { type: 'string' },
+    reason: { type: 'enum', values: ['focus', 'limit'] },
+  },
+
+  [CONST_EVENTS.GET_REPORT]: {
+    period: { type: 'enum', values: ['week', 'month'] },
+    date: { type: 'number' },
+  },
+  [CONST_EVENTS.GET_HEATMAP]: {
+    start: { type: 'number' },
+    end: { type: 'number' },
+    domain: { type: 'string', optional: true },
+  },
+}
+
+export function isMessageType(type: unknown): type is MessageType {
+  return typeof type === 'string' && Object.prototype.hasOwnProperty.call(MESSAGE_SCHEMA, type)
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function validateField(name: string, rule: FieldRule, value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return rule.optional ? null : `${name} is required`
+  }
+
+  switch (rule.type) {
+    case 'enum':
+      return typeof value === 'string' && rule.values.includes(value)
+        ? null
+        : `${name} must be one of ${rule.values.join(', ')}`
+    case 'number':
+      return Number.isFinite(value) ? null : `${name} must be a finite number`
+    case 'object':
+      return isPlainObject(value) ? null : `${name} must be an object`
+    case 'array':
+      return Array.isArray(value) ? null : `${name} must be an array`
+    default:
+      return typeof value === rule.type ? null : `${name} must be a ${rule.type}`
+  }
+}
+
+/**
+ * Checks an incoming runtime message against MESSAGE_SCHEMA.
+ * Throws with every problem found so the sender gets a useful error.
+ */
+export function validateMessage(raw: unknown): Message {
+  if (!isPlainObject(raw)) {
+    throw new Error('Message must be an object')
+  }
+
+  const { type, data } = raw
+
+  if (!isMessageType(type)) {
+    throw new Error(`Unknown message type: ${String(type)}`)
+  }
+
+  const rule = MESSAGE_SCHEMA[type]
+
+  if (rule === null) {
+    return { type, data: undefined, timestamp: raw.timestamp } as Message
+  }
+
+  if (!isPlainObject(data)) {
+    throw new Error(`${type} requires a data object`)
+  }
+
+  if (rule !== 'record') {
+    const errors = Object.entries(rule)
+      .map(([field, fieldRule]) => validateField(field, fieldRule, data[field]))
+      .filter((error): error is string => error !== null)
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid ${type}: ${errors.join('; ')}`)
+    }
+  }
+
+  return raw as Message
+}
+
+/** Checks one item of a BATCH_EVENTS payload: an L2 message plus the time it happened. */
+export function validateQueuedEvent(raw: unknown): QueuedEvent {
+  if (!isPlainObject(raw)) {
+    throw new Error('Queued event must be an object')
+  }
+
+  if (!(INTERACTION_EVENTS as readonly unknown[]).includes(raw.type)) {
+    throw new Error(`Not an interaction event: ${String(raw.type)}`)
+  }
+
+  if (!Number.isFinite(raw.timestamp)) {
+    throw new Error(`Queued ${String(raw.type)} has no timestamp`)
+  }
+
+  const { type, data } = validateMessage(raw)
+  return { type, data, timestamp: raw.timestamp } as QueuedEvent
+}
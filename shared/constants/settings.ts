@@ -0,0 +1,201 @@
+import type { ExtensionSettings, SettingKey, SettingsPatch } from '../types/settings'
+import { isValidDomainPattern } from '../utils/url-utils'
+import { CATEGORIES } from './categories'
+
+type SettingRule =
+  | { type: 'boolean' }
+  | { type: 'enum', values: readonly string[] }
+  | { type: 'number', min: number, max: number, integer?: boolean }
+  | { type: 'domainMap', min: number, max: number }
+  | { type: 'numberList', min: number, max: number }
+  | { type: 'domainList' }
+  | { type: 'domainEnumMap', values: readonly string[] }
+  | { type: 'enumNumberMap', keys: readonly string[], min: number, max: number }
+
+export const DEFAULT_SETTINGS: ExtensionSettings = {
+  trackingEnabled: true,
+  badgeEnabled: true,
+  badgeMode: 'page',
+  idleThresholdSeconds: 30,
+  idleOverrides: {},
+  multiWindowTracking: false,
+  dailyLimits: {},
+  limitAlertThresholds: [80, 100],
+  categoryLimits: {},
+  limitResetHour: 0,
+  categoryOverrides: {},
+  focusModeEnabled: false,
+  focusDomains: [],
+  focusStartHour: 9,
+  focusEndHour: 17,
+  retentionDays: 365,
+  interactionRetentionDays: 30,
+  rawEventWindowDays: 7,
+  sessionRetentionDays: 90,
+  autoCleanup: true,
+  spaDetection: true,
+  interactionTracking: true,
+  trackScroll: true,
+  trackClicks: true,
+  trackKeystrokes: true,
+  trackForms: true,
+  detailedLogging: false,
+}
+
+export const SETTINGS_SCHEMA: Record<SettingKey, SettingRule> = {
+  trackingEnabled: { type: 'boolean' },
+  badgeEnabled: { type: 'boolean' },
+  badgeMode: { type: 'enum', values: ['page', 'session', 'today'] },
+  // chrome.idle rejects detection intervals below 15 seconds
+  idleThresholdSeconds: { type: 'number', min: 15, max: 4 * 60 * 60, integer: true },
+  idleOverrides: { type: 'domainMap', min: 15, max: 4 * 60 * 60 },
+  multiWindowTracking: { type: 'boolean' },
+  dailyLimits: { type: 'domainMap', min: 1, max: 24 * 60 },
+  limitAlertThresholds: { type: 'numberList', min: 1, max: 100 },
+  categoryLimits: { type: 'enumNumberMap', keys: CATEGORIES, min: 1, max: 24 * 60 },
+  limitResetHour: { type: 'number', min: 0, max: 23, integer: true },
+  categoryOverrides: { type: 'domainEnumMap', values: CATEGORIES },
+  focusModeEnabled: { type: 'boolean' },
+  focusDomains: { type: 'domainList' },
+  focusStartHour: { type: 'number', min: 0, max: 23, integer: true },
+  focusEndHour: { type: 'number', min: 0, max: 23, integer: true },
+  // Page aggregates: pages and their daily rollups
+  retentionDays: { type: 'number', min: 1, max: 3650, integer: true },
+  // Click, keystroke, scroll and form summaries
+  interactionRetentionDays: { type: 'number', min: 1, max: 3650, integer: true },
+  // Raw interaction events are deleted this long after being summarized
+  rawEventWindowDays: { type: 'number', min: 1, max: 3650, integer: true },
+  // Sessions and the navigation events recorded in them
+  sessionRetentionDays: { type: 'number', min: 1, max: 3650, integer: true },
+  autoCleanup: { type: 'boolean' },
+  spaDetection: { type: 'boolean' },
+  interactionTracking: { type: 'boolean' },
+  trackScroll: { type: 'boolean' },
+  trackClicks: { type: 'boolean' },
+  trackKeystrokes: { type: 'boolean' },
+  trackForms: { type: 'boolean' },
+  detailedLogging: { type: 'boolean' },
+}
+
+export function isSettingKey(key: string): key is SettingKey {
+  return Object.prototype.hasOwnProperty.call(SETTINGS_SCHEMA, key)
+}
+
+export function validateSettingValue(key: SettingKey, value: unknown): string | null {
+  const rule = SETTINGS_SCHEMA[key]
+
+  if (rule.type === 'boolean') {
+    return typeof value === 'boolean' ? null : `${key} must be a boolean`
+  }
+
+  if (rule.type === 'enum') {
+    return typeof value === 'string' && rule.values.includes(value)
+      ? null
+      : `${key} must be one of ${rule.values.join(', ')}`
+  }
+
+  if (rule.type === 'domainMap') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return `${key} must be an object`
+    }
+
+    for (const [pattern, seconds] of Object.entries(value)) {
+      if (!isValidDomainPattern(pattern)) {
+        return `${key} has an invalid domain pattern: ${pattern}`
+      }
+      if (!Number.isInteger(seconds) || seconds < rule.min || seconds > rule.max) {
+        return `${key}.${pattern} must be an integer between ${rule.min} and ${rule.max}`
+      }
+    }
+
+    return null
+  }
+
+  if (rule.type === 'numberList') {
+    if (!Array.isArray(value)) {
+      return `${key} must be an array`
+    }
+
+    const invalid = value.find(item => !Number.isInteger(item) || item < rule.min || item > rule.max)
+    return invalid === undefined
+      ? null
+      : `${key} must contain integers between ${rule.min} and ${rule.max}`
+  }
+
+  if (rule.type === 'domainEnumMap') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return `${key} must be an object`
+    }
+
+    for (const [pattern, item] of Object.entries(value)) {
+      if (!isValidDomainPattern(pattern)) {
+        return `${key} has an invalid domain pattern: ${pattern}`
+      }
+      if (typeof item !== 'string' || !rule.values.includes(item)) {
+        return `${key}.${pattern} must be one of ${rule.values.join(', ')}`
+      }
+    }
+
+    return null
+  }
+
+  if (rule.type === 'enumNumberMap') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return `${key} must be an object`
+    }
+
+    for (const [name, item] of Object.entries(value)) {
+      if (!rule.keys.includes(name)) {
+        return `${key} has an unknown key: ${name}`
+      }
+      if (!Number.isInteger(item) || item < rule.min || item > rule.max) {
+        return `${key}.${name} must be an integer between ${rule.min} and ${rule.max}`
+      }
+    }
+
+    return null
+  }
+
+  if (rule.type === 'domainList') {
+    if (!Array.isArray(value)) {
+      return `${key} must be an array`
+    }
+
+    const invalid = value.find(pattern => typeof pattern !== 'string' || !isValidDomainPattern(pattern))
+    return invalid === undefined
+      ? null
+      : `${key} has an invalid domain pattern: ${invalid}`
+  }
+
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    return `${key} must be a number`
+  }
+  if (rule.integer && !Number.isInteger(value)) {
+    return `${key} must be an integer`
+  }
+  if (value < rule.min || value > rule.max) {
+    return `${key} must be between ${rule.min} and ${rule.max}`
+  }
+
+  return null
+}
+
+export function validateSettingsPatch(patch: Record<string, unknown>): SettingsPatch {
+  const errors: string[] = []
+
+  Object.entries(patch).forEach(([key, value]) => {
+    if (!isSettingKey(key)) {
+      errors.push(`Unknown setting: ${key}`)
+      return
+    }
+
+    const error = validateSettingValue(key, value)
+    if (error) errors.push(error)
+  })
+
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '))
+  }
+
+  return patch as SettingsPatch
+}
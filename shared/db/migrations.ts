@@ -0,0 +1,143 @@
+import type { Transaction } from 'dexie'
+
+import type { DailyActivity, Event, Page, Session } from '../types/database'
+import { cleanUrl, extractDomain } from '../utils/url-utils'
+import { getDayKey } from '../utils/date-utils'
+
+// Rows written by the first release (the old lib/database.ts schema)
+interface LegacyEvent {
+  id?: number
+  v: number
+  sid: string
+  ts: number
+  type: string
+  tabId?: number
+  url?: string
+  title?: string
+  referrer?: string
+  visible?: boolean
+  duration?: number
+  userActive?: boolean
+  page?: { url: string, title: string, referrer?: string }
+}
+
+interface LegacyPage {
+  id?: number
+  url: string
+  title: string
+  totalTime: number
+  visitCount: number
+  firstVisit: number
+  lastVisit: number
+}
+
+const isLegacyPage = (row: any): row is LegacyPage => 'totalTime' in row && !('totalActiveTime' in row)
+const isLegacyEvent = (row: any): row is LegacyEvent => 'ts' in row && !('timestamp' in row)
+
+/**
+ * v4: converts rows left by the legacy schema in place. Pages get a domain and
+ * totalActiveTime, `active_time` events become daily_activity credit, every other
+ * event is rewritten to the Event shape, and legacy `sid`s become closed sessions.
+ */
+export async function migrateLegacyRows(tx: Transaction) {
+  const pages = tx.table<Page | LegacyPage, number>('pages')
+  const events = tx.table<Event | LegacyEvent, number>('events')
+  const sessions = tx.table<Session, number>('sessions')
+  const dailyActivity = tx.table<DailyActivity, number>('daily_activity')
+
+  const legacyPages = (await pages.toArray()).filter(isLegacyPage)
+  for (const page of legacyPages) {
+    const { totalTime, ...rest } = page
+    await pages.put({
+      ...rest,
+      domain: extractDomain(page.url),
+      totalActiveTime: totalTime,
+      visitCount: page.visitCount,
+      createdAt: page.firstVisit,
+      updatedAt: page.lastVisit
+    })
+  }
+
+  const legacyEvents = (await events.toArray()).filter(isLegacyEvent)
+  if (legacyEvents.length === 0) return
+
+  const pageIds = new Map<string, Page>()
+  ;(await pages.toArray() as Page[]).forEach(page => pageIds.set(page.url, page))
+
+  const pageFor = async (event: LegacyEvent): Promise<Page | null> => {
+    const rawUrl = event.page?.url || event.url
+    if (!rawUrl) return null
+
+    const url = cleanUrl(rawUrl)
+    const existing = pageIds.get(url)
+    if (existing) return existing
+
+    const page: Page = {
+      url,
+      domain: extractDomain(url),
+      title: event.page?.title || event.title || '',
+      firstVisit: event.ts,
+      lastVisit: event.ts,
+      createdAt: event.ts,
+      updatedAt: event.ts,
+      totalActiveTime: 0,
+      visitCount: 0
+    }
+    page.id = await pages.add(page)
+    pageIds.set(url, page)
+    return page
+  }
+
+  const sessionBounds = new Map<string, { start: number, end: number }>()
+
+  for (const event of legacyEvents) {
+    const bounds = sessionBounds.get(event.sid) || { start: event.ts, end: event.ts }
+    sessionBounds.set(event.sid, {
+      start: Math.min(bounds.start, event.ts),
+      end: Math.max(bounds.end, event.ts)
+    })
+
+    const page = await pageFor(event)
+    if (!page) {
+      await events.delete(event.id!)
+      continue
+    }
+
+    if (event.type === 'active_time') {
+      // Time now lives in per-day buckets rather than in events
+      const date = getDayKey(event.ts)
+      const row = await dailyActivity.where('[pageId+date]').equals([page.id!, date]).first()
+      const duration = event.duration || 0
+
+      if (row) {
+        await dailyActivity.update(row.id!, { activeTime: row.activeTime + duration, updatedAt: event.ts })
+      } else {
+        await dailyActivity.add({ pageId: page.id!, domain: page.domain, date, activeTime: duration, updatedAt: event.ts })
+      }
+      await events.delete(event.id!)
+      continue
+    }
+
+    const referrer = event.page?.referrer || event.referrer
+    await events.put({
+      id: event.id,
+      pageId: page.id!,
+      sessionId: event.sid,
+      timestamp: event.ts,
+      type: event.type as Event['type'],
+      data: {
+        ...(referrer ? { referrer } : {}),
+        ...(event.duration !== undefined ? { activeTimeMs: event.duration } : {})
+      }
+    })
+  }
+
+  for (const [sessionId, { start, end }] of sessionBounds) {
+    const existing = await sessions.where('sessionId').equals(sessionId).first()
+    if (!existing) {
+      await sessions.add({ sessionId, startTime: start, endTime: end, isActive: false })
+    }
+  }
+
+  console.log(`Migrated ${legacyPages.length} legacy pages and ${legacyEvents.length} legacy events`)
+}
@@ -1,36 +1,78 @@
 import Dexie from 'dexie'
 
-import type { Page, Event, Session, Setting, DomainRule } from '@/shared/types/database'
+import type { Page, DailyActivity, Event, Session, Setting, DomainRule, InteractionSummary, Meta } from '@/shared/types/database'
+import { migrateLegacyRows } from './migrations'
+
+export const DB_NAME = 'AnalyticsDB'
+
+/** Highest version declared below; bump together with a new this.version() block. */
+export const SCHEMA_VERSION = 6
 
 export class AnalyticsDB extends Dexie {
   pages!: Dexie.Table<Page, number>
+  daily_activity!: Dexie.Table<DailyActivity, number>
   events!: Dexie.Table<Event, number>
   sessions!: Dexie.Table<Session, number>
   settings!: Dexie.Table<Setting, number>
   domain_rules!: Dexie.Table<DomainRule, number>
+  interaction_summaries!: Dexie.Table<InteractionSummary, number>
+  meta!: Dexie.Table<Meta, string>
 
   constructor() {
-    super('AnalyticsDB')
+    super(DB_NAME)
 
+    // Dexie diffs each version against the schema actually installed, so databases
+    // created by the legacy lib/database.ts schema get their indexes rebuilt here too
     this.version(1).stores({
       pages: '++id, url, domain, firstVisit, lastVisit, totalActiveTime',
       events: '++id, pageId, sessionId, timestamp, type',
       sessions: '++id, sessionId, startTime, endTime, isActive',
-      settings: '++id, key',
+      settings: '++id, key'
+    })
+
+    this.version(2).stores({
+      daily_activity: '++id, &[pageId+date], pageId, domain, date'
+    })
+
+    this.version(3).stores({
       domain_rules: '++id, domain, ruleType'
     })
 
+    this.version(4).upgrade(migrateLegacyRows)
+
+    this.version(5).stores({
+      interaction_summaries: '++id, &[pageId+date], pageId, date',
+      meta: '&key'
+    })
+
+    this.version(6).stores({
+      events: '++id, pageId, sessionId, visitId, timestamp, type'
+    })
+
+    // Dexie 4 opens a newer database as-is instead of failing, so refuse it explicitly
+    this.on('ready', (db) => {
+      const installed = Math.floor(db.backendDB().version / 10)
+      if (installed > SCHEMA_VERSION) {
+        throw new Dexie.VersionError(
+          `${DB_NAME} is at schema version ${installed}, but this extension only understands up to ${SCHEMA_VERSION}. ` +
+          'It was probably written by a newer version of the extension; update it or clear the data to continue.'
+        )
+      }
+    })
+
     this.pages.hook('creating', (primKey: any, obj: any, trans: any) => {
       const now = Date.now();
 
-      obj.createdAt = now;
-      obj.updatedAt = now;
+      obj.createdAt ??= now;
+      obj.updatedAt ??= now;
     });
 
     this.pages.hook('updating', (modifications: any, primKey: any, obj: any, trans: any) => {
-      modifications.updatedAt = Date.now();
+      if (!('updatedAt' in modifications)) {
+        return { updatedAt: Date.now() };
+      }
     });
   }
 }
 
-export const db = new AnalyticsDB()
\ No newline at end of file
+export const db = new AnalyticsDB()
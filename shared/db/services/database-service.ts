@@ -1,6 +1,11 @@
 import { db } from '../schema'
-import type { Page, Event, EventData, EventType } from '@/shared/types/database';
+import type { ActivityKind, Page, DailyActivity, Event, EventData } from '../../types/database';
+import type { Category } from '../../types/settings';
+import type { ActiveInterval, CategoryStats, DailyTrend, PageStats, StorageUsage } from '../../types/interfaces';
+import { CONST_EVENTS } from '../../constants/constants';
+import { resolveCategory } from '../../constants/categories';
 import { cleanUrl, extractDomain } from '../../utils/url-utils';
+import { countDays, getDayKey, getStartOfDay, getStartOfNextDay, parseDayKey, splitIntervalByDay } from '../../utils/date-utils';
 
 export class DatabaseService {
 
@@ -61,34 +66,162 @@ export class DatabaseService {
    */
   static async startPageActivity(pageId: number): Promise<void> {
     const page = await db.pages.get(pageId);
-    if (!page) return;
 
     // Проверяем, что сессия еще не началась
-    if (!page.currentSessionStart) {
+    if (!page || page.currentSessionStart) return;
+
+    await db.pages.update(pageId, {
+      currentSessionStart: Date.now(),
+      lastVisit: Date.now()
+    });
+  }
+
+  /**
+   * Завершить активную сессию на странице; возвращает закрытый интервал
+   */
+  static async endPageActivity(pageId: number, endTime = Date.now()): Promise<ActiveInterval | null> {
+    const page = await db.pages.get(pageId);
+    if (!page?.currentSessionStart) return null;
+
+    const start = page.currentSessionStart;
+    const now = Math.max(endTime, start);
+    const sessionTime = now - start;
+
+    await db.transaction('rw', [db.pages, db.daily_activity], async () => {
       await db.pages.update(pageId, {
-        currentSessionStart: Date.now(),
-        lastVisit: Date.now()
+        totalActiveTime: page.totalActiveTime + sessionTime,
+        currentSessionStart: undefined,
+        lastVisit: now
       });
-    }
+
+      await this.creditDailyActivity(page, start, now);
+    });
+
+    return { domain: page.domain, start, end: now };
   }
 
   /**
-   * Завершить активную сессию на странице
+   * Начать интервал воспроизведения медиа на странице
    */
-  static async endPageActivity(pageId: number): Promise<number> {
+  static async startPassiveActivity(pageId: number): Promise<void> {
     const page = await db.pages.get(pageId);
-    if (!page?.currentSessionStart) return 0;
+    if (!page || page.currentPassiveStart) return;
 
-    const now = Date.now();
-    const sessionTime = now - page.currentSessionStart;
+    await db.pages.update(pageId, { currentPassiveStart: Date.now() });
+  }
 
-    await db.pages.update(pageId, {
-      totalActiveTime: page.totalActiveTime + sessionTime,
-      currentSessionStart: undefined,
-      lastVisit: now
+  /**
+   * Завершить интервал воспроизведения медиа на странице; возвращает его длительность
+   */
+  static async endPassiveActivity(pageId: number, endTime = Date.now()): Promise<number> {
+    const page = await db.pages.get(pageId);
+    if (!page?.currentPassiveStart) return 0;
+
+    const start = page.currentPassiveStart;
+    const now = Math.max(endTime, start);
+    const passiveTime = now - start;
+
+    await db.transaction('rw', [db.pages, db.daily_activity], async () => {
+      await db.pages.update(pageId, {
+        totalPassiveTime: (page.totalPassiveTime || 0) + passiveTime,
+        currentPassiveStart: undefined
+      });
+
+      await this.creditDailyActivity(page, start, now, 'passive');
     });
 
-    return sessionTime;
+    return passiveTime;
+  }
+
+  /**
+   * Начать интервал видимости страницы в несфокусированном окне
+   */
+  static async startVisibleActivity(pageId: number): Promise<void> {
+    const page = await db.pages.get(pageId);
+    if (!page || page.currentVisibleStart) return;
+
+    await db.pages.update(pageId, { currentVisibleStart: Date.now() });
+  }
+
+  /**
+   * Завершить интервал видимости страницы в несфокусированном окне
+   */
+  static async endVisibleActivity(pageId: number, endTime = Date.now()): Promise<number> {
+    const page = await db.pages.get(pageId);
+    if (!page?.currentVisibleStart) return 0;
+
+    const start = page.currentVisibleStart;
+    const now = Math.max(endTime, start);
+    const visibleTime = now - start;
+
+    await db.transaction('rw', [db.pages, db.daily_activity], async () => {
+      await db.pages.update(pageId, {
+        totalVisibleTime: (page.totalVisibleTime || 0) + visibleTime,
+        currentVisibleStart: undefined
+      });
+
+      await this.creditDailyActivity(page, start, now, 'visible');
+    });
+
+    return visibleTime;
+  }
+
+  /**
+   * Закрыть все незакрытые интервалы моментом `endTime` — последним временем,
+   * когда прежний воркер был жив; после него ничего не наблюдалось.
+   * Возвращает закрытые активные интервалы
+   */
+  static async closeOpenIntervals(endTime: number): Promise<ActiveInterval[]> {
+    const openPages = await db.pages
+      .filter(page => !!page.currentSessionStart || !!page.currentPassiveStart || !!page.currentVisibleStart)
+      .toArray();
+    const closed: ActiveInterval[] = [];
+
+    for (const page of openPages) {
+      const interval = await this.endPageActivity(page.id!, endTime);
+      if (interval) closed.push(interval);
+      await this.endPassiveActivity(page.id!, endTime);
+      await this.endVisibleActivity(page.id!, endTime);
+    }
+
+    return closed;
+  }
+
+  /**
+   * Распределить интервал активности по календарным дням (с разбиением в полночь)
+   */
+  static async creditDailyActivity(
+    page: Page,
+    start: number,
+    end: number,
+    kind: ActivityKind = 'active'
+  ): Promise<void> {
+    const field = ({ active: 'activeTime', passive: 'passiveTime', visible: 'visibleTime' } as const)[kind];
+
+    for (const chunk of splitIntervalByDay(start, end)) {
+      const existing = await db.daily_activity
+        .where('[pageId+date]')
+        .equals([page.id!, chunk.date])
+        .first();
+
+      if (existing) {
+        await db.daily_activity.update(existing.id!, {
+          [field]: (existing[field] || 0) + chunk.duration,
+          updatedAt: end
+        });
+      } else {
+        await db.daily_activity.add({
+          pageId: page.id!,
+          domain: page.domain,
+          date: chunk.date,
+          activeTime: 0,
+          passiveTime: 0,
+          visibleTime: 0,
+          [field]: chunk.duration,
+          updatedAt: end
+        });
+      }
+    }
   }
 
   /**
@@ -105,38 +238,66 @@ export class DatabaseService {
     return page.totalActiveTime + currentSessionTime;
   }
 
+  /**
+   * Найти страницу по URL без query и hash
+   */
+  static async getPageIdFromUrl(pageUrl: string): Promise<number | null> {
+    const cleanUrl = pageUrl.split(/[?#]/)[0];
+    const page = await db.pages.where('url').equals(cleanUrl).first();
+    return page?.id ?? null;
+  }
+
+  /**
+   * Получить накопленное активное время страницы
+   */
+  static async getTabTotalTime(pageUrl: string): Promise<number> {
+    const page = await db.pages.where('url').equals(pageUrl).first();
+    return page?.totalActiveTime ?? 0;
+  }
+
   // ===== УПРАВЛЕНИЕ СОБЫТИЯМИ =====
 
   /**
    * Добавить событие
    */
   static async addEvent(
-    pageId: number,
+    pageId: number | undefined,
     sessionId: string,
-    type: EventType,
-    data?: EventData
+    type: string,
+    data?: EventData,
+    visitId?: string
   ): Promise<void> {
     await db.events.add({
       pageId,
       sessionId,
+      visitId,
       timestamp: Date.now(),
       type,
       data
     });
   }
 
+  /**
+   * Добавить пачку событий одной транзакцией; данные L2-событий хранятся как пришли
+   */
+  static async addEvents(events: { pageId: number, sessionId: string, visitId?: string, frameId?: number, timestamp: number, type: string, data?: unknown }[]): Promise<void> {
+    if (events.length === 0) return;
+
+    await db.transaction('rw', db.events, async () => {
+      await db.events.bulkAdd(events);
+    });
+  }
+
   /**
    * Получить события страницы
    */
   static async getPageEvents(
     pageId: number,
-    eventTypes?: EventType[],
+    eventTypes?: string[],
     startTime?: number,
     endTime?: number
   ): Promise<Event[]> {
-    let query = db.events.where('pageId').equals(pageId);
-
-    const events = await query.toArray();
+    const events = await db.events.where('pageId').equals(pageId).toArray();
 
     return events.filter(event => {
       // Фильтр по типам событий
@@ -186,78 +347,306 @@ export class DatabaseService {
   }
 
   /**
-   * Получить топ доменов
+   * Получить страницы, сгруппированные по домену
    */
-  static async getTopDomains(limit = 10): Promise<Array<{
-    domain: string;
-    totalTime: number;
-    pageCount: number;
-    visitCount: number;
-  }>> {
+  static async getAllTabs(): Promise<Record<string, PageStats[]>> {
+    const tabs = await db.pages.toArray();
+
+    return tabs.reduce<Record<string, PageStats[]>>((acc, cur) => {
+      if (!acc[cur.domain]) {
+        acc[cur.domain] = [];
+      }
+      acc[cur.domain].push(cur);
+      return acc;
+    }, {});
+  }
+
+  /**
+   * Получить топ доменов за всё время
+   */
+  static async getTopDomains(limit = 10, categoryOverrides: Record<string, Category> = {}) {
     const pages = await db.pages.toArray();
     const domainMap = new Map<string, {
       totalTime: number;
+      passiveTime: number;
+      visibleTime: number;
       pageCount: number;
       visitCount: number;
     }>();
 
     pages.forEach(page => {
-      const currentSession = page.currentSessionStart
-        ? Date.now() - page.currentSessionStart
-        : 0;
-      const totalTime = page.totalActiveTime + currentSession;
-
       const existing = domainMap.get(page.domain) || {
         totalTime: 0,
+        passiveTime: 0,
+        visibleTime: 0,
         pageCount: 0,
         visitCount: 0
       };
 
       domainMap.set(page.domain, {
-        totalTime: existing.totalTime + totalTime,
+        totalTime: existing.totalTime + page.totalActiveTime,
+        passiveTime: existing.passiveTime + (page.totalPassiveTime || 0),
+        visibleTime: existing.visibleTime + (page.totalVisibleTime || 0),
         pageCount: existing.pageCount + 1,
         visitCount: existing.visitCount + page.visitCount
       });
     });
 
     return Array.from(domainMap.entries())
-      .map(([domain, stats]) => ({ domain, ...stats }))
-      .sort((a, b) => b.totalTime - a.totalTime)
+      .map(([domain, stats]) => ({ domain, ...stats, category: resolveCategory(domain, categoryOverrides) }))
+      .sort((a, b) => (b.totalTime + b.passiveTime + b.visibleTime) - (a.totalTime + a.passiveTime + a.visibleTime))
       .slice(0, limit);
   }
 
   /**
-   * Получить активное время за сегодня
+   * Свести время доменов по категориям
    */
-  static async getTodayActiveTime(): Promise<number> {
-    const startOfDay = new Date();
-    startOfDay.setHours(0, 0, 0, 0);
-    const startTimestamp = startOfDay.getTime();
+  static sumCategories(domains: { category: Category, totalTime: number }[]): CategoryStats[] {
+    const totals = new Map<Category, CategoryStats>();
+
+    domains.forEach(({ category, totalTime }) => {
+      const existing = totals.get(category) || { category, totalTime: 0, domainCount: 0 };
+      totals.set(category, {
+        category,
+        totalTime: existing.totalTime + totalTime,
+        domainCount: existing.domainCount + 1
+      });
+    });
+
+    return Array.from(totals.values()).sort((a, b) => b.totalTime - a.totalTime);
+  }
+
+  /**
+   * Получить статистику по доменам и страницам за диапазон [start, end),
+   * включая ещё не закрытые интервалы
+   */
+  static async getRangeStats(start: number, end: number, limit = 10, categoryOverrides: Record<string, Category> = {}) {
+    const rows = await this.getDailyActivity(getDayKey(start), getDayKey(end - 1));
+    const pageTimes = new Map<number, Record<ActivityKind, number>>();
+
+    const credit = (pageId: number, kind: ActivityKind, time: number) => {
+      const times = pageTimes.get(pageId) || { active: 0, passive: 0, visible: 0 };
+      times[kind] += time;
+      pageTimes.set(pageId, times);
+    };
+
+    rows.forEach(row => {
+      credit(row.pageId, 'active', row.activeTime);
+      credit(row.pageId, 'passive', row.passiveTime || 0);
+      credit(row.pageId, 'visible', row.visibleTime || 0);
+    });
 
-    const pages = await db.pages
-      .where('lastVisit')
-      .aboveOrEqual(startTimestamp)
+    const now = Date.now();
+    const openPages = await db.pages
+      .filter(page => !!page.currentSessionStart || !!page.currentPassiveStart || !!page.currentVisibleStart)
       .toArray();
 
-    return pages.reduce((total, page) => {
-      // Считаем только время активности после начала дня
-      const pageEvents = db.events
-        .where('pageId').equals(page.id!)
-        .and(event => event.timestamp >= startTimestamp)
-        .toArray();
-
-      // Здесь нужна более сложная логика для подсчета времени за день
-      // Пока используем простую аппроксимацию
-      const todayTime = page.lastVisit >= startTimestamp
-        ? page.totalActiveTime
-        : 0;
+    const openTime = (since?: number) => since ? Math.min(now, end) - Math.max(since, start) : 0;
 
-      const currentSession = page.currentSessionStart && page.currentSessionStart >= startTimestamp
-        ? Date.now() - page.currentSessionStart
-        : 0;
+    openPages.forEach(page => {
+      const openActive = openTime(page.currentSessionStart);
+      const openPassive = openTime(page.currentPassiveStart);
+      const openVisible = openTime(page.currentVisibleStart);
+
+      if (openActive > 0) credit(page.id!, 'active', openActive);
+      if (openPassive > 0) credit(page.id!, 'passive', openPassive);
+      if (openVisible > 0) credit(page.id!, 'visible', openVisible);
+    });
+
+    const pageViews = await db.events
+      .where('timestamp')
+      .between(start, end, true, false)
+      .and(event => event.type === CONST_EVENTS.PAGE_VIEW)
+      .toArray();
+
+    const visitCounts = new Map<number, number>();
+    pageViews.forEach(event => {
+      if (event.pageId === undefined) return;
+      visitCounts.set(event.pageId, (visitCounts.get(event.pageId) || 0) + 1);
+    });
+
+    const bypasses = await db.events
+      .where('timestamp')
+      .between(start, end, true, false)
+      .and(event => event.type === CONST_EVENTS.FOCUS_BYPASS)
+      .toArray();
+
+    const bypassCounts = new Map<string, number>();
+    bypasses.forEach(event => {
+      const domain = event.data?.domain;
+      if (domain) bypassCounts.set(domain, (bypassCounts.get(domain) || 0) + 1);
+    });
+
+    const pageIds = Array.from(new Set([...pageTimes.keys(), ...visitCounts.keys()]));
+    const pages = (await db.pages.bulkGet(pageIds)).filter((page): page is Page => !!page);
+
+    const groupedTabs: Record<string, PageStats[]> = {};
+    const domainMap = new Map<string, { totalTime: number, passiveTime: number, visibleTime: number, pageCount: number, visitCount: number }>();
+
+    pages.forEach(page => {
+      const times = pageTimes.get(page.id!) || { active: 0, passive: 0, visible: 0 };
+      const visitCount = visitCounts.get(page.id!) || 0;
+
+      if (!groupedTabs[page.domain]) {
+        groupedTabs[page.domain] = [];
+      }
+      groupedTabs[page.domain].push({
+        ...page,
+        totalActiveTime: times.active,
+        totalPassiveTime: times.passive,
+        totalVisibleTime: times.visible,
+        visitCount
+      });
+
+      const existing = domainMap.get(page.domain) || { totalTime: 0, passiveTime: 0, visibleTime: 0, pageCount: 0, visitCount: 0 };
+      domainMap.set(page.domain, {
+        totalTime: existing.totalTime + times.active,
+        passiveTime: existing.passiveTime + times.passive,
+        visibleTime: existing.visibleTime + times.visible,
+        pageCount: existing.pageCount + 1,
+        visitCount: existing.visitCount + visitCount
+      });
+    });
+
+    const pageTotal = (page: PageStats) => page.totalActiveTime + (page.totalPassiveTime || 0) + (page.totalVisibleTime || 0);
+    Object.values(groupedTabs).forEach(tabs => {
+      tabs.sort((a, b) => pageTotal(b) - pageTotal(a));
+    });
+
+    const domains = Array.from(domainMap.entries())
+      .map(([domain, stats]) => ({
+        domain,
+        ...stats,
+        bypassCount: bypassCounts.get(domain) || 0,
+        category: resolveCategory(domain, categoryOverrides)
+      }))
+      .sort((a, b) => (b.totalTime + b.passiveTime + b.visibleTime) - (a.totalTime + a.passiveTime + a.visibleTime));
+
+    // Календарные дни диапазона от первого отслеженного дня до сегодня, включая дни без активности
+    const firstRow = await db.daily_activity.orderBy('date').first();
+    const firstDay = Math.max(getStartOfDay(start), firstRow ? parseDayKey(firstRow.date) : getStartOfDay(now));
+    const dayCount = Math.max(countDays(firstDay, Math.min(end, getStartOfNextDay(now))), 0);
+
+    return {
+      topDomains: domains.slice(0, limit),
+      groupedTabs,
+      totalTime: domains.reduce((total, domain) => total + domain.totalTime, 0),
+      passiveTime: domains.reduce((total, domain) => total + domain.passiveTime, 0),
+      visibleTime: domains.reduce((total, domain) => total + domain.visibleTime, 0),
+      bypassCount: bypasses.length,
+      categories: this.sumCategories(domains),
+      dayCount
+    };
+  }
+
+  /**
+   * Получить активное время по дням для самых посещаемых доменов,
+   * остальные домены складываются в `other`
+   */
+  static async getDailyTrend(start: number, end: number, limit = 7): Promise<DailyTrend> {
+    const rows = await this.getDailyActivity(getDayKey(start), getDayKey(end - 1));
+    const dayTimes = new Map<string, Map<string, number>>();
+
+    const credit = (date: string, domain: string, time: number) => {
+      const domains = dayTimes.get(date) || new Map<string, number>();
+      domains.set(domain, (domains.get(domain) || 0) + time);
+      dayTimes.set(date, domains);
+    };
+
+    rows.forEach(row => credit(row.date, row.domain, row.activeTime));
+
+    const now = Date.now();
+    const openPages = await db.pages.filter(page => !!page.currentSessionStart).toArray();
+    openPages.forEach(page => {
+      splitIntervalByDay(Math.max(page.currentSessionStart!, start), Math.min(now, end))
+        .forEach(chunk => credit(chunk.date, page.domain, chunk.duration));
+    });
+
+    const totals = new Map<string, number>();
+    dayTimes.forEach(domains => domains.forEach((time, domain) => {
+      totals.set(domain, (totals.get(domain) || 0) + time);
+    }));
+
+    const topDomains = Array.from(totals.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, limit)
+      .map(([domain]) => domain);
+
+    const days: DailyTrend['days'] = [];
+    for (let day = getStartOfDay(start); day < end; day = getStartOfNextDay(day)) {
+      const domains = dayTimes.get(getDayKey(day)) || new Map<string, number>();
+      const total = Array.from(domains.values()).reduce((sum, time) => sum + time, 0);
+      const segments = topDomains.map(domain => domains.get(domain) || 0);
+
+      days.push({
+        date: getDayKey(day),
+        domains: segments,
+        other: total - segments.reduce((sum, time) => sum + time, 0)
+      });
+    }
+
+    return { domains: topDomains, days };
+  }
 
-      return total + todayTime + currentSession;
+  /**
+   * Получить дневные записи активности за диапазон дат (YYYY-MM-DD, включительно)
+   */
+  static async getDailyActivity(startDate: string, endDate: string): Promise<DailyActivity[]> {
+    return db.daily_activity
+      .where('date')
+      .between(startDate, endDate, true, true)
+      .toArray();
+  }
+
+  /**
+   * Получить активное время за диапазон [start, end) в миллисекундах,
+   * включая ещё не закрытые интервалы активности
+   */
+  static async getActiveTimeForRange(start: number, end: number): Promise<number> {
+    const rows = await this.getDailyActivity(getDayKey(start), getDayKey(end - 1));
+    const stored = rows.reduce((total, row) => total + row.activeTime, 0);
+
+    const openPages = await db.pages
+      .filter(page => !!page.currentSessionStart)
+      .toArray();
+
+    const now = Date.now();
+    const open = openPages.reduce((total, page) => {
+      const from = Math.max(page.currentSessionStart!, start);
+      const to = Math.min(now, end);
+      return total + Math.max(0, to - from);
     }, 0);
+
+    return stored + open;
+  }
+
+  /**
+   * Получить активное время за сегодня
+   */
+  static async getTodayActiveTime(): Promise<number> {
+    const startOfDay = getStartOfDay(Date.now());
+    return this.getActiveTimeForRange(startOfDay, Date.now() + 1);
+  }
+
+  /**
+   * Получить активное время домена за сегодня, включая открытые интервалы
+   */
+  static async getDomainTodayTime(domain: string): Promise<number> {
+    const pages = await db.pages.where('domain').equals(domain).toArray();
+    const pageIds = new Set(pages.map(page => page.id));
+
+    const rows = await this.getDailyActivity(getDayKey(Date.now()), getDayKey(Date.now()));
+    const stored = rows
+      .filter(row => pageIds.has(row.pageId))
+      .reduce((total, row) => total + row.activeTime, 0);
+
+    const startOfDay = getStartOfDay(Date.now());
+    const now = Date.now();
+    const open = pages.reduce((total, page) => page.currentSessionStart
+      ? total + Math.max(0, now - Math.max(page.currentSessionStart, startOfDay))
+      : total, 0);
+
+    return stored + open;
   }
 
   /**
@@ -267,7 +656,7 @@ export class DatabaseService {
     const page = await db.pages.get(pageId);
     if (!page) return null;
 
-    const events = await this.getPageEvents(pageId, ['focus_gain', 'focus_lost']);
+    const events = await this.getPageEvents(pageId, [CONST_EVENTS.FOCUS_GAIN, CONST_EVENTS.FOCUS_LOST]);
 
     // Построить активные сессии из событий
     const activeSessions: Array<{
@@ -276,19 +665,21 @@ export class DatabaseService {
       duration: number;
     }> = [];
 
-    let currentStart: number | null = null;
+    let current: Event | null = null;
 
     events.forEach(event => {
-      if (event.type === 'focus_gain') {
-        currentStart = event.timestamp;
-      } else if (event.type === 'focus_lost' && currentStart) {
-        const duration = event.timestamp - currentStart;
+      if (event.type === CONST_EVENTS.FOCUS_GAIN) {
+        current = event;
+      } else if (event.type === CONST_EVENTS.FOCUS_LOST && current) {
+        // Потеря фокуса закрывает только сессию своего визита; у старых событий визита нет
+        if (current.visitId && event.visitId && current.visitId !== event.visitId) return;
+
         activeSessions.push({
-          start: currentStart,
+          start: current.timestamp,
           end: event.timestamp,
-          duration
+          duration: event.timestamp - current.timestamp
         });
-        currentStart = null;
+        current = null;
       }
     });
 
@@ -319,16 +710,41 @@ export class DatabaseService {
     };
   }
 
+  /**
+   * Получить размер хранилища
+   */
+  static async getStorageUsage(): Promise<Omit<StorageUsage, 'lastCleanup'>> {
+    const [pages, events, sessions, dailyActivity] = await Promise.all([
+      db.pages.count(),
+      db.events.count(),
+      db.sessions.count(),
+      db.daily_activity.count()
+    ]);
+
+    const estimate = await navigator.storage?.estimate?.().catch(() => undefined);
+
+    return {
+      pages,
+      events,
+      sessions,
+      dailyActivity,
+      usageBytes: estimate?.usage ?? null,
+      quotaBytes: estimate?.quota ?? null
+    };
+  }
+
   // ===== ОЧИСТКА ДАННЫХ =====
 
   /**
    * Удалить все данные
    */
   static async clearAllData(): Promise<void> {
-    await db.transaction('rw', [db.pages, db.events, db.sessions], async () => {
+    await db.transaction('rw', [db.pages, db.daily_activity, db.events, db.sessions, db.interaction_summaries], async () => {
       await db.pages.clear();
+      await db.daily_activity.clear();
       await db.events.clear();
       await db.sessions.clear();
+      await db.interaction_summaries.clear();
     });
   }
 
@@ -346,4 +762,4 @@ export class DatabaseService {
       await db.pages.where('lastVisit').below(cutoffDate).delete();
     });
   }
-}
\ No newline at end of file
+}
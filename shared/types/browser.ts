@@ -18,9 +18,19 @@ export interface TabChangeInfo {
 export interface ActiveTab {
   tabId: number
   pageId: number
+  /** One stay of this tab on this page, from its page view until it navigates away or closes */
+  visitId: string
+  /** Active time credited to this visit so far */
+  visitActiveTime: number
   url: string
   domain: string
   isVisible: boolean
   isIdle: boolean
+  isPrivate: boolean
+  isAudible: boolean
+  isMediaPlaying: boolean
+  isPassive: boolean
+  /** Active tab of a visible window other than the focused one, credited visible time */
+  isWindowVisible: boolean
   lastActivityTime: number
 }
\ No newline at end of file
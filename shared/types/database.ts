@@ -1,3 +1,5 @@
+import type { BlockReason, ClickData } from './interfaces'
+
 export interface Page {
   id?: number
   url: string
@@ -11,13 +13,36 @@ export interface Page {
 
   totalActiveTime: number
   currentSessionStart?: number
+  totalPassiveTime?: number
+  currentPassiveStart?: number
+  /** Time on screen in a visible but unfocused window (multi-window mode) */
+  totalVisibleTime?: number
+  currentVisibleStart?: number
   visitCount: number
 }
 
-export interface Event {
+export type ActivityKind = 'active' | 'passive' | 'visible'
+
+export interface DailyActivity {
   id?: number
   pageId: number
+  domain: string
+  date: string
+  activeTime: number
+  passiveTime?: number
+  visibleTime?: number
+  updatedAt: number
+}
+
+export interface Event {
+  id?: number
+  /** Absent on session_start and session_end, which belong to no page */
+  pageId?: number
   sessionId: string
+  /** The visit (see ActiveTab) the event happened in; absent on rows from before v6 */
+  visitId?: string
+  /** Frame of the sending content script, for L2 events */
+  frameId?: number
   timestamp: number
   type: EventType
   data?: EventData
@@ -33,6 +58,7 @@ export type EventType =
   | 'session_end'
   | 'idle_start'
   | 'idle_end'
+  | 'focus_bypass'
 
   // L2
   | 'scroll_depth_%'
@@ -44,8 +70,12 @@ export type EventType =
   | 'spa_route_change'
 
 export interface EventData {
+  /** Active time of the visit up to this event; of the whole session on session events */
   activeTimeMs?: number
   referrer?: string
+  /** Site let through the focus interstitial, and why it had been stopped */
+  domain?: string
+  reason?: BlockReason
 
   // L2
   scrollDepth?: number
@@ -57,12 +87,34 @@ export interface EventData {
   routeTo?: string
 }
 
+/** Raw L2 events of one page and day, folded together by the compactor */
+export interface InteractionSummary {
+  id?: number
+  pageId: number
+  date: string
+  maxScrollDepth: number
+  clicks: number
+  keydowns: number
+  formSubmits: number
+  routeChanges: number
+  lastClick?: ClickData
+  lastClickAt?: number
+  updatedAt: number
+}
+
+export interface Meta {
+  key: string
+  value: unknown
+}
+
 export interface Session {
   id?: number
   sessionId: string
   startTime: number
   endTime?: number
   isActive: boolean
+  /** Active time credited while this session was current */
+  activeTime?: number
   userAgent?: string
 }
 
@@ -1,3 +1,6 @@
+import type { BACKUP_TABLES } from '../constants/constants'
+import type { Category } from './settings'
+
 export interface ActiveTab {
   tabId: number
   pageId: number
@@ -22,13 +25,15 @@ export interface PageData {
   firstVisit: number
   lastVisit: number
   totalActiveTime: number
+  totalPassiveTime?: number
+  totalVisibleTime?: number
   visitCount: number
   currentSessionStart?: number
 }
 
 export interface EventData {
   id?: number
-  pageId: number
+  pageId?: number
   sessionId: string
   timestamp: number
   type: string
@@ -46,23 +51,258 @@ export interface SessionData {
 export interface DomainStats {
   domain: string
   totalTime: number
+  passiveTime?: number
+  visibleTime?: number
   pageCount: number
   visitCount: number
+  /** Times focus mode was bypassed for the domain */
+  bypassCount?: number
+  category?: Category
+}
+
+/** Time summed over every domain of a category */
+export interface CategoryStats {
+  category: Category
+  totalTime: number
+  domainCount: number
+}
+
+export interface PageStats {
+  id?: number
+  url: string
+  domain: string
+  title: string
+  totalActiveTime: number
+  totalPassiveTime?: number
+  totalVisibleTime?: number
+  visitCount: number
+}
+
+export interface ClickData {
+  tag: string
+  id: string
+  classes: string
+  x: number
+  y: number
+}
+
+export interface TabStats {
+  url: string
+  domain: string
+  activeTime: number
+  lastScroll: number
+  keydownCount: number
+  lastClick: ClickData | null
 }
 
 export interface StatsResponse {
+  /** Every tracked domain, most used first; views filter before they cut the list short */
   topDomains: DomainStats[]
-  currentTab: {
-    url: string
-    domain: string
-    activeTime: number
-  } | null
+  categories: CategoryStats[]
+  currentTab: TabStats | null
+}
+
+export interface RangeStats {
+  /** Every domain with time in the range, most used first */
+  topDomains: DomainStats[]
+  groupedTabs: Record<string, PageStats[]>
+  totalTime: number
+  passiveTime: number
+  visibleTime: number
+  bypassCount: number
+  categories: CategoryStats[]
+  /** Calendar days in the range from the first tracked day up to today */
+  dayCount: number
+}
+
+export interface MetricsResponse {
+  url: string | null
+  pageId?: number
+  scroll: number
+  click: ClickData | null
+  keydown: number
+}
+
+export interface StorageUsage {
+  pages: number
+  events: number
+  sessions: number
+  dailyActivity: number
+  usageBytes: number | null
+  quotaBytes: number | null
+  lastCleanup: CleanupReport | null
+}
+
+/** Rows removed by one retention run */
+export interface CleanupReport {
+  ranAt: number
+  interactionEvents: number
+  interactionSummaries: number
+  events: number
+  sessions: number
+  dailyActivity: number
+  pages: number
+}
+
+/** Today's use of the daily limit that covers a domain */
+export interface LimitStatus {
+  pattern: string
+  usedMs: number
+  limitMs: number
+  /** Usage from which the limit counts as nearly used up */
+  warningMs: number
+  resetsAt: number
+}
+
+/** Why a navigation was sent to the focus interstitial */
+export type BlockReason = 'focus' | 'limit'
+
+export interface BlockInfo {
+  domain: string
+  /** Active time on the domain today, from the page totals */
+  todayTime: number
+  limit: LimitStatus | null
+}
+
+export interface DailyTrend {
+  /** Domains with a segment of their own, busiest first */
+  domains: string[]
+  /** Every day of the range; `domains` lines up with the list above */
+  days: { date: string, domains: number[], other: number }[]
+}
+
+export type ReportPeriod = 'week' | 'month'
+
+export interface ReportDomain {
+  domain: string
+  activeTime: number
+  /** Active time in the period before, to show the change */
+  previousActiveTime: number
+}
+
+/** Uninterrupted active time on one domain, from focus and idle events */
+export interface FocusStretch {
+  domain: string
+  start: number
+  duration: number
+}
+
+export interface Report {
+  period: ReportPeriod
+  start: number
+  end: number
+  generatedAt: number
+  totalActiveTime: number
+  previousActiveTime: number
+  sessionCount: number
+  topDomains: ReportDomain[]
+  categories: { category: Category, activeTime: number, previousActiveTime: number }[]
+  /** Every day of the period, in order */
+  days: { date: string, activeTime: number }[]
+  /** Active time per hour of the day, 0 to 23 */
+  hours: number[]
+  longestStretches: FocusStretch[]
+  /** Domains first seen in this period */
+  newDomains: { domain: string, firstVisit: number, activeTime: number }[]
+}
+
+export interface Heatmap {
+  start: number
+  end: number
+  /** Only this domain's activity was counted, when set */
+  domain: string | null
+  /** Active time by weekday (0 for Sunday) and then local hour */
+  cells: number[][]
+  /** Busiest domains of each cell, keyed `${weekday}-${hour}` */
+  cellDomains: Record<string, { domain: string, activeTime: number }[]>
+}
+
+export type JobName = 'checkpoint' | 'badge-refresh' | 'compaction' | 'retention' | 'daily-rollup'
+
+export interface JobStatus {
+  lastRun: number | null
+  lastDurationMs: number | null
+  lastError: string | null
+  nextRun: number | null
+}
+
+/** Active time on one page, as closed by DatabaseService.endPageActivity */
+export interface ActiveInterval {
+  domain: string
+  start: number
+  end: number
+}
+
+export interface DailyActivityData {
+  id?: number
+  pageId: number
+  domain: string
+  date: string
+  activeTime: number
+  passiveTime?: number
+  visibleTime?: number
+  updatedAt: number
 }
 
 export interface ExportData {
   pages: PageData[]
   events: EventData[]
   sessions: SessionData[]
+  // Added in 1.1
+  dailyActivity?: DailyActivityData[]
   exportDate: string
   version: string
+}
+
+export type ChunkedExportFormat = 'pages-csv' | 'events-csv' | 'events-ndjson' | 'daily-csv' | 'categories-csv'
+
+export interface ExportChunkRequest {
+  format: ChunkedExportFormat
+  // Optional [start, end) range in ms
+  start?: number
+  end?: number
+  // null or omitted for the first chunk
+  cursor?: number | null
+}
+
+export type BackupTable = typeof BACKUP_TABLES[number]
+
+export interface BackupChunkRequest {
+  table: BackupTable
+  // Optional [start, end) range in ms
+  start?: number
+  end?: number
+  // null or omitted for the first chunk
+  cursor?: number | null
+}
+
+export interface ExportChunk {
+  chunk: string
+  cursor: number | null
+}
+
+export type ImportMode = 'replace' | 'merge'
+
+export interface ImportCounts {
+  added: number
+  merged: number
+  skipped: number
+}
+
+export interface ImportSummary {
+  mode: ImportMode
+  dryRun: boolean
+  version: string
+  exportDate: string
+  pages: ImportCounts
+  events: ImportCounts
+  sessions: ImportCounts
+  dailyActivity: ImportCounts
+  // Rows deleted before a replace import
+  removed: {
+    pages: number
+    events: number
+    sessions: number
+    dailyActivity: number
+  }
 }
\ No newline at end of file
@@ -1,26 +1,243 @@
-// export interface BaseMessage {
-//   type: string
-//   data?: any
-//   timestamp?: number
-// }
-
-// export interface TabChangeInfo {
-//   audible?: boolean;
-//   discarded?: boolean;
-//   favIconUrl?: string;
-//   mutedInfo?: Browser.tabs.MutedInfo;
-//   pinned?: boolean;
-//   status?: 'loading' | 'complete';
-//   title?: string;
-//   url?: string;
-// }
-
-// export interface ActiveTab {
-//   tabId: number
-//   pageId: number
-//   url: string
-//   domain: string
-//   isVisible: boolean
-//   isIdle: boolean
-//   lastActivityTime: number
-// }
\ No newline at end of file
+import { CONST_EVENTS, type INTERACTION_EVENTS } from '../constants/constants'
+import type { DomainRule } from './database'
+import type { ExtensionSettings, SettingsPatch } from './settings'
+import type { BlockInfo, BlockReason, CleanupReport, ClickData, DailyTrend, BackupChunkRequest, BackupTable, ExportChunk, ExportChunkRequest, ExportData, Heatmap, ImportMode, ImportSummary, JobName, JobStatus, MetricsResponse, PageStats, RangeStats, Report, ReportPeriod, StatsResponse, StorageUsage } from './interfaces'
+
+type Events = typeof CONST_EVENTS
+
+export interface PageViewRequest {
+  url: string
+  title: string
+  referrer?: string
+}
+
+export interface VisibilityChangeRequest {
+  visible: boolean
+  url?: string
+  reason?: string
+}
+
+export interface FormInteractionRequest {
+  interactionType: string
+  tag: string
+}
+
+export interface SpaRouteChangeRequest {
+  interactionType: string
+  url: string
+  details?: {
+    from: string
+    to: string
+    timestamp: number
+    trigger: string
+  }
+}
+
+export interface RangeRequest {
+  start: number
+  end: number
+}
+
+export interface ImportStartRequest {
+  // Header fields of the backup file
+  version: string
+  exportDate: string
+  mode: ImportMode
+  dryRun?: boolean
+}
+
+export interface ImportChunkRequest {
+  importId: string
+  table: BackupTable
+  // Rows of the backup, validated by the background
+  rows: unknown[]
+}
+
+export type InteractionEventType = typeof INTERACTION_EVENTS[number]
+
+/** An L2 event buffered by the content script, stamped when it happened */
+export type QueuedEvent = {
+  [K in InteractionEventType]: {
+    type: K
+    data: MessageRequestMap[K]
+    timestamp: number
+  }
+}[InteractionEventType]
+
+export interface BatchEventsRequest {
+  events: QueuedEvent[]
+}
+
+/** `accepted: false` asks the sender to keep the batch and retry after `retryAfterMs` */
+export interface BatchEventsResponse {
+  accepted: boolean
+  stored: number
+  retryAfterMs?: number
+}
+
+export interface SuccessResponse {
+  success: true
+}
+
+/**
+ * Payload of every message, keyed by message type.
+ * `undefined` means the message carries no data.
+ */
+export interface MessageRequestMap {
+  [CONST_EVENTS.PAGE_VIEW]: PageViewRequest
+  [CONST_EVENTS.VISIBILITY_CHANGE]: VisibilityChangeRequest
+  [CONST_EVENTS.MEDIA_STATE]: { playing: boolean }
+
+  // L2
+  [CONST_EVENTS.SCROLL_DEPTH]: { value: number }
+  [CONST_EVENTS.CLICK]: ClickData
+  [CONST_EVENTS.KEYDOWN]: undefined
+  [CONST_EVENTS.FORM_INTERACTION]: FormInteractionRequest
+  [CONST_EVENTS.SPA_ROUTE_CHANGE]: SpaRouteChangeRequest
+  [CONST_EVENTS.BATCH_EVENTS]: BatchEventsRequest
+
+  [CONST_EVENTS.GET_TODAY_TIME]: undefined
+  [CONST_EVENTS.GET_STATS]: undefined
+  [CONST_EVENTS.GET_RANGE_STATS]: RangeRequest
+  [CONST_EVENTS.GET_DAILY_TREND]: RangeRequest
+  [CONST_EVENTS.GET_ALL_TABS]: undefined
+  [CONST_EVENTS.GET_METRICS]: { url?: string }
+
+  [CONST_EVENTS.IS_TRACKING_ENABLED]: undefined
+  [CONST_EVENTS.PAUSE_TRACKING]: undefined
+  [CONST_EVENTS.RESUME_TRACKING]: undefined
+  [CONST_EVENTS.SET_BADGE_ENABLED]: { enabled: boolean }
+  [CONST_EVENTS.GET_SETTINGS]: undefined
+  [CONST_EVENTS.UPDATE_SETTINGS]: SettingsPatch
+
+  [CONST_EVENTS.GET_DOMAIN_RULES]: undefined
+  [CONST_EVENTS.ADD_DOMAIN_RULE]: { domain: string, ruleType: DomainRule['ruleType'] }
+  [CONST_EVENTS.UPDATE_DOMAIN_RULE]: { id: number, isActive: boolean }
+  [CONST_EVENTS.REMOVE_DOMAIN_RULE]: { id: number }
+
+  [CONST_EVENTS.EXPORT_DATA]: undefined
+  [CONST_EVENTS.EXPORT_CHUNK]: ExportChunkRequest
+  [CONST_EVENTS.EXPORT_BACKUP_CHUNK]: BackupChunkRequest
+  [CONST_EVENTS.IMPORT_START]: ImportStartRequest
+  [CONST_EVENTS.IMPORT_CHUNK]: ImportChunkRequest
+  [CONST_EVENTS.IMPORT_FINISH]: { importId: string }
+  [CONST_EVENTS.GET_STORAGE_USAGE]: undefined
+  [CONST_EVENTS.GET_JOB_STATUS]: undefined
+  [CONST_EVENTS.RUN_CLEANUP]: undefined
+  [CONST_EVENTS.CLEAR_DATA]: undefined
+
+  [CONST_EVENTS.GET_BLOCK_INFO]: { url: string }
+  [CONST_EVENTS.ALLOW_BYPASS]: { url: string, reason: BlockReason }
+
+  /** The week or month containing `date` */
+  [CONST_EVENTS.GET_REPORT]: { period: ReportPeriod, date: number }
+  [CONST_EVENTS.GET_HEATMAP]: { start: number, end: number, domain?: string }
+}
+
+/** Messages the background answers even while tracking is paused. */
+export type AlwaysHandledMessageType =
+  | Events['IS_TRACKING_ENABLED']
+  | Events['RESUME_TRACKING']
+  | Events['SET_BADGE_ENABLED']
+  | Events['GET_SETTINGS']
+  | Events['UPDATE_SETTINGS']
+  | Events['GET_DOMAIN_RULES']
+  | Events['ADD_DOMAIN_RULE']
+  | Events['UPDATE_DOMAIN_RULE']
+  | Events['REMOVE_DOMAIN_RULE']
+  | Events['GET_STORAGE_USAGE']
+  | Events['GET_JOB_STATUS']
+  | Events['RUN_CLEANUP']
+  | Events['EXPORT_DATA']
+  | Events['EXPORT_CHUNK']
+  | Events['EXPORT_BACKUP_CHUNK']
+  | Events['IMPORT_START']
+  | Events['IMPORT_CHUNK']
+  | Events['IMPORT_FINISH']
+  | Events['GET_BLOCK_INFO']
+  | Events['ALLOW_BYPASS']
+  | Events['GET_REPORT']
+  | Events['GET_HEATMAP']
+  | Events['GET_DAILY_TREND']
+  | Events['GET_RANGE_STATS']
+
+interface HandledResponseMap {
+  [CONST_EVENTS.PAGE_VIEW]: null
+  [CONST_EVENTS.VISIBILITY_CHANGE]: null
+  [CONST_EVENTS.MEDIA_STATE]: null
+
+  // L2
+  [CONST_EVENTS.SCROLL_DEPTH]: null
+  [CONST_EVENTS.CLICK]: null
+  [CONST_EVENTS.KEYDOWN]: null
+  [CONST_EVENTS.FORM_INTERACTION]: null
+  [CONST_EVENTS.SPA_ROUTE_CHANGE]: null
+  [CONST_EVENTS.BATCH_EVENTS]: BatchEventsResponse
+
+  [CONST_EVENTS.GET_TODAY_TIME]: { todayTime: number }
+  [CONST_EVENTS.GET_STATS]: StatsResponse
+  [CONST_EVENTS.GET_RANGE_STATS]: RangeStats
+  [CONST_EVENTS.GET_DAILY_TREND]: DailyTrend
+  [CONST_EVENTS.GET_ALL_TABS]: { allTabs: Record<string, PageStats[]> }
+  [CONST_EVENTS.GET_METRICS]: MetricsResponse
+
+  [CONST_EVENTS.IS_TRACKING_ENABLED]: { enabled: boolean }
+  [CONST_EVENTS.PAUSE_TRACKING]: SuccessResponse
+  [CONST_EVENTS.RESUME_TRACKING]: SuccessResponse
+  [CONST_EVENTS.SET_BADGE_ENABLED]: SuccessResponse
+  [CONST_EVENTS.GET_SETTINGS]: { settings: ExtensionSettings }
+  [CONST_EVENTS.UPDATE_SETTINGS]: { settings: ExtensionSettings }
+
+  [CONST_EVENTS.GET_DOMAIN_RULES]: { rules: DomainRule[] }
+  [CONST_EVENTS.ADD_DOMAIN_RULE]: { rule: DomainRule }
+  [CONST_EVENTS.UPDATE_DOMAIN_RULE]: SuccessResponse
+  [CONST_EVENTS.REMOVE_DOMAIN_RULE]: SuccessResponse
+
+  [CONST_EVENTS.EXPORT_DATA]: ExportData
+  [CONST_EVENTS.EXPORT_CHUNK]: ExportChunk
+  [CONST_EVENTS.EXPORT_BACKUP_CHUNK]: ExportChunk
+  [CONST_EVENTS.IMPORT_START]: { importId: string }
+  [CONST_EVENTS.IMPORT_CHUNK]: SuccessResponse
+  [CONST_EVENTS.IMPORT_FINISH]: ImportSummary
+  [CONST_EVENTS.GET_STORAGE_USAGE]: StorageUsage
+  [CONST_EVENTS.GET_JOB_STATUS]: { jobs: Record<JobName, JobStatus> }
+  [CONST_EVENTS.RUN_CLEANUP]: CleanupReport
+  [CONST_EVENTS.CLEAR_DATA]: SuccessResponse
+
+  [CONST_EVENTS.GET_BLOCK_INFO]: BlockInfo
+  [CONST_EVENTS.ALLOW_BYPASS]: { allowedUntil: number }
+
+  [CONST_EVENTS.GET_REPORT]: Report
+  [CONST_EVENTS.GET_HEATMAP]: Heatmap
+}
+
+export type MessageType = keyof MessageRequestMap
+
+/**
+ * Response data of every message, keyed by message type.
+ * While tracking is paused the background answers `null`
+ * to everything outside AlwaysHandledMessageType.
+ */
+export type MessageResponseMap = {
+  [K in MessageType]: K extends AlwaysHandledMessageType
+    ? HandledResponseMap[K]
+    : HandledResponseMap[K] | null
+}
+
+export type Message<K extends MessageType = MessageType> = {
+  [T in K]: {
+    type: T
+    data: MessageRequestMap[T]
+    timestamp?: number
+  }
+}[K]
+
+export type MessageResponse<K extends MessageType = MessageType> =
+  | { success: true, data: MessageResponseMap[K] }
+  | { success: false, error: string }
+
+/** Arguments after `type` for sendMessage: data is optional only when the message has none. */
+export type MessageArgs<K extends MessageType> =
+  MessageRequestMap[K] extends undefined
+    ? [data?: undefined]
+    : [data: MessageRequestMap[K]]
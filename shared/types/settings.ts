@@ -0,0 +1,54 @@
+export type BadgeMode = 'page' | 'session' | 'today'
+
+export type Category =
+  | 'work'
+  | 'dev'
+  | 'social'
+  | 'news'
+  | 'entertainment'
+  | 'shopping'
+  | 'uncategorized'
+
+export interface ExtensionSettings {
+  trackingEnabled: boolean
+  badgeEnabled: boolean
+  badgeMode: BadgeMode
+  idleThresholdSeconds: number
+  idleOverrides: Record<string, number>
+  multiWindowTracking: boolean
+  /** Daily budget in minutes per domain pattern */
+  dailyLimits: Record<string, number>
+  /** Percentages of a budget at which a notification is shown */
+  limitAlertThresholds: number[]
+  /** Daily budget in minutes per category, shared by all its domains */
+  categoryLimits: Partial<Record<Category, number>>
+  /** Hour of the day at which daily limits start over */
+  limitResetHour: number
+  /** Categories per domain pattern, on top of the bundled defaults */
+  categoryOverrides: Record<string, Category>
+  /** Redirects distracting domains to an interstitial page */
+  focusModeEnabled: boolean
+  /** Domain patterns interrupted during focus hours */
+  focusDomains: string[]
+  /** Focus hours run from this hour up to focusEndHour; equal hours mean all day */
+  focusStartHour: number
+  focusEndHour: number
+  retentionDays: number
+  interactionRetentionDays: number
+  rawEventWindowDays: number
+  sessionRetentionDays: number
+  autoCleanup: boolean
+  spaDetection: boolean
+  interactionTracking: boolean
+  trackScroll: boolean
+  trackClicks: boolean
+  trackKeystrokes: boolean
+  trackForms: boolean
+  detailedLogging: boolean
+}
+
+export type SettingKey = keyof ExtensionSettings
+
+export type SettingsPatch = Partial<ExtensionSettings>
+
+export type SettingsListener = (settings: ExtensionSettings, changed: SettingKey[]) => void | Promise<void>
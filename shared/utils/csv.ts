@@ -0,0 +1,19 @@
+export type CsvCell = string | number | boolean | null | undefined
+
+// Spreadsheet apps run cells starting with these as formulas; page titles are untrusted
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+export function escapeCsvCell(value: CsvCell): string {
+  if (value === null || value === undefined) return ''
+  if (typeof value !== 'string') return String(value)
+
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value
+
+  return /[",\r\n]/.test(text) || text !== text.trim()
+    ? `"${text.replace(/"/g, '""')}"`
+    : text
+}
+
+export function toCsvRow(cells: CsvCell[]): string {
+  return cells.map(escapeCsvCell).join(',') + '\r\n'
+}
@@ -0,0 +1,134 @@
+export interface DayChunk {
+  date: string
+  start: number
+  end: number
+  duration: number
+}
+
+export interface HourChunk {
+  /** Local day of the week, 0 for Sunday as in Date.getDay() */
+  weekday: number
+  /** Local hour of the day */
+  hour: number
+  start: number
+  duration: number
+}
+
+export function getDayKey(timestamp: number): string {
+  const date = new Date(timestamp)
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+/** Local midnight of a 'YYYY-MM-DD' key, the inverse of getDayKey. */
+export function parseDayKey(key: string): number {
+  const [year, month, day] = key.split('-').map(Number)
+
+  return new Date(year, month - 1, day).getTime()
+}
+
+export function addDays(timestamp: number, days: number): number {
+  const date = new Date(timestamp)
+  date.setDate(date.getDate() + days)
+
+  return date.getTime()
+}
+
+export function getStartOfDay(timestamp: number): number {
+  const date = new Date(timestamp)
+  date.setHours(0, 0, 0, 0)
+
+  return date.getTime()
+}
+
+/** Start of the day containing `timestamp` for days that begin at `hour` o'clock rather than midnight. */
+export function getStartOfDayAt(timestamp: number, hour: number): number {
+  const date = new Date(timestamp)
+  if (date.getHours() < hour) {
+    date.setDate(date.getDate() - 1)
+  }
+  date.setHours(hour, 0, 0, 0)
+
+  return date.getTime()
+}
+
+export function getStartOfNextDay(timestamp: number): number {
+  const date = new Date(timestamp)
+  date.setHours(0, 0, 0, 0)
+  date.setDate(date.getDate() + 1)
+
+  return date.getTime()
+}
+
+/** Calendar days between two local midnights; rounding absorbs daylight saving shifts. */
+export function countDays(start: number, end: number): number {
+  return Math.round((end - start) / (24 * 60 * 60 * 1000))
+}
+
+/** Monday midnight of the week containing `timestamp`. */
+export function getStartOfWeek(timestamp: number): number {
+  const date = new Date(timestamp)
+  date.setHours(0, 0, 0, 0)
+  date.setDate(date.getDate() - (date.getDay() + 6) % 7)
+
+  return date.getTime()
+}
+
+export function getStartOfMonth(timestamp: number): number {
+  const date = new Date(timestamp)
+  date.setHours(0, 0, 0, 0)
+  date.setDate(1)
+
+  return date.getTime()
+}
+
+export function addMonths(timestamp: number, months: number): number {
+  const date = new Date(timestamp)
+  date.setMonth(date.getMonth() + months)
+
+  return date.getTime()
+}
+
+export function splitIntervalByDay(start: number, end: number): DayChunk[] {
+  const chunks: DayChunk[] = []
+  let cursor = start
+
+  while (cursor < end) {
+    const boundary = Math.min(getStartOfNextDay(cursor), end)
+    chunks.push({
+      date: getDayKey(cursor),
+      start: cursor,
+      end: boundary,
+      duration: boundary - cursor
+    })
+    cursor = boundary
+  }
+
+  return chunks
+}
+
+/**
+ * Splits an interval at local hour boundaries. The boundaries come from Date,
+ * so the hour skipped when clocks go forward gets nothing and the hour repeated
+ * when they go back is credited once, with both of its real hours.
+ */
+export function splitIntervalByHour(start: number, end: number): HourChunk[] {
+  const chunks: HourChunk[] = []
+  let cursor = start
+
+  while (cursor < end) {
+    const date = new Date(cursor)
+    const boundary = Math.min(new Date(cursor).setMinutes(60, 0, 0), end)
+    chunks.push({
+      weekday: date.getDay(),
+      hour: date.getHours(),
+      start: cursor,
+      duration: boundary - cursor
+    })
+    cursor = boundary
+  }
+
+  return chunks
+}
@@ -0,0 +1,11 @@
+let detailedLogging = false
+
+export function setDetailedLogging(enabled: boolean) {
+  detailedLogging = enabled
+}
+
+export function debugLog(...args: unknown[]) {
+  if (detailedLogging) {
+    console.debug(...args)
+  }
+}
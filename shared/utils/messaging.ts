@@ -1,44 +1,72 @@
-import type { BaseMessage } from "../types/browser";
+import { validateMessage } from "../constants/messages";
+import type { Message, MessageArgs, MessageRequestMap, MessageResponse, MessageResponseMap, MessageType } from "../types/messages";
 
-export function sendMessage<T = any>(type: string, data?: any): Promise<T> {
+/**
+ * Sends a message to the background and unwraps the `{ success, data, error }`
+ * envelope: resolves with the data or rejects with the background's error.
+ */
+export function sendMessage<K extends MessageType>(type: K, ...[data]: MessageArgs<K>): Promise<MessageResponseMap[K]> {
   return new Promise((resolve, reject) => {
-    const message: BaseMessage = {
+    const message = {
       type,
       data,
       timestamp: Date.now()
-    };
+    } as Message<K>;
 
-    browser.runtime.sendMessage(message, (response) => {
+    browser.runtime.sendMessage(message, (response?: MessageResponse<K>) => {
       if (browser.runtime.lastError) {
         reject(new Error(browser.runtime.lastError.message));
+      } else if (!response) {
+        reject(new Error(`No response to ${type}`));
+      } else if (!response.success) {
+        reject(new Error(response.error));
       } else {
-        resolve(response);
+        resolve(response.data);
       }
     });
   });
 }
 
-export function createMessageHandler(handlers: Record<string, (message: BaseMessage, sender: chrome.runtime.MessageSender) => Promise<any> | any>) {
+export type MessageHandlers = {
+  [K in MessageType]?: (
+    data: MessageRequestMap[K],
+    sender: chrome.runtime.MessageSender
+  ) => Promise<MessageResponseMap[K]> | MessageResponseMap[K]
+}
+
+export function createMessageHandler(handlers: MessageHandlers) {
   return (
-    message: BaseMessage,
+    raw: unknown,
     sender: chrome.runtime.MessageSender,
-    sendResponse: (response: any) => void
+    sendResponse: (response: MessageResponse) => void
   ) => {
-    const handler = handlers[message.type];
+    let message: Message;
+
+    try {
+      message = validateMessage(raw);
+    } catch (error) {
+      console.warn('Rejected message:', error);
+      sendResponse({ success: false, error: (error as Error).message });
+      return false;
+    }
+
+    const handler = handlers[message.type] as
+      | ((data: unknown, sender: chrome.runtime.MessageSender) => any)
+      | undefined;
 
     if (!handler) {
-      console.warn(`Unknown message type: ${message.type}`);
-      sendResponse({ error: `Unknown message type: ${message.type}` });
+      console.warn(`Unhandled message type: ${message.type}`);
+      sendResponse({ success: false, error: `Unhandled message type: ${message.type}` });
       return false;
     }
 
     try {
-      const result = handler(message, sender);
+      const result = handler(message.data, sender);
 
       if (result && typeof result.then === 'function') {
         result
-          .then(response => sendResponse({ success: true, data: response }))
-          .catch(error => {
+          .then((response: unknown) => sendResponse({ success: true, data: response } as MessageResponse))
+          .catch((error: Error) => {
             console.error(`Error handling message ${message.type}:`, error);
             sendResponse({ success: false, error: error.message });
           });
@@ -55,19 +83,3 @@ export function createMessageHandler(handlers: Record<string, (message: BaseMess
     }
   };
 }
-
-export function createContentMessageHandler(handlers: Record<string, (message: BaseMessage) => any>) {
-  return (message: BaseMessage, sender: chrome.runtime.MessageSender, sendResponse: (response: any) => void) => {
-    const handler = handlers[message.type];
-
-    if (handler) {
-      try {
-        const result = handler(message);
-        sendResponse({ success: true, data: result });
-      } catch (error) {
-        console.error(`Error handling content message ${message.type}:`, error);
-        sendResponse({ success: false, error: (error as Error).message });
-      }
-    }
-  };
-}
\ No newline at end of file
@@ -16,4 +16,55 @@ export function extractDomain(url: string): string {
   } catch {
     return 'unknown'
   }
-}
\ No newline at end of file
+}
+
+export function normalizeDomain(input: string): string {
+  let domain = input.trim().toLowerCase()
+
+  domain = domain.replace(/^[a-z][a-z0-9+.-]*:\/\//, '')
+  domain = domain.split(/[/?#]/)[0]
+  domain = domain.replace(/:\d+$/, '')
+  domain = domain.replace(/\.$/, '')
+
+  return domain
+}
+
+export function isValidDomainPattern(pattern: string): boolean {
+  return /^(\*\.)?([a-z0-9-]+\.)*[a-z0-9-]+$/.test(pattern)
+}
+
+export function matchesDomainPattern(pattern: string, domain: string): boolean {
+  if (pattern.startsWith('*.')) {
+    const base = pattern.slice(2)
+    return domain === base || domain.endsWith(`.${base}`)
+  }
+
+  return domain === pattern
+}
+
+/** The most specific of `patterns` matching `domain`: an exact domain beats any wildcard. */
+export function resolveDomainPattern(patterns: string[], domain: string): string | undefined {
+  const normalized = normalizeDomain(domain)
+  let bestPattern: string | undefined
+
+  patterns.forEach(pattern => {
+    if (!matchesDomainPattern(pattern, normalized)) return
+
+    const specificity = pattern.startsWith('*.') ? pattern.length - 2 : pattern.length + 1
+    const bestSpecificity = bestPattern === undefined
+      ? -1
+      : bestPattern.startsWith('*.') ? bestPattern.length - 2 : bestPattern.length + 1
+
+    if (specificity > bestSpecificity) {
+      bestPattern = pattern
+    }
+  })
+
+  return bestPattern
+}
+
+export function resolveDomainValue<T>(values: Record<string, T>, domain: string): T | undefined {
+  const pattern = resolveDomainPattern(Object.keys(values), domain)
+
+  return pattern === undefined ? undefined : values[pattern]
+}
@@ -11,6 +11,8 @@ export default defineConfig({
       'tabs',
       'idle',
       'alarms',
+      'notifications',
+      'webNavigation',
       'activeTab'
     ],
     host_permissions: [
@@ -23,8 +25,7 @@ export default defineConfig({
     action: {
       default_popup: 'popup/index.html',
       default_title: 'Activity Analytics'
-    },
-    options_page: 'options/index.html'
+    }
   },
   vite: () => ({
     resolve: {